@@ -1,6 +1,10 @@
 import type { Dict } from '@ember-data/types/q/utils';
 
-import type { RecordIdentifier } from './identifier';
+import type { RecordIdentifier, StableRecordIdentifier } from './identifier';
+import type { PersistentStorage } from './persistent-storage';
+import type { ChangedAttributesHash, ChangedRelationshipsHash } from './record-data';
+import type { JsonApiResource } from './record-data-json-api';
+import type { RequestOperation } from './request-manager';
 
 export interface Operation {
   op: string;
@@ -14,18 +18,32 @@ export interface FindRecordQuery extends Operation {
   options: any;
 }
 
+export type SaveOperation = 'createRecord' | 'updateRecord' | 'deleteRecord';
+
 export interface SaveRecordMutation extends Operation {
   op: 'saveRecord';
   recordIdentifier: RecordIdentifier;
   options: any;
 }
 
+// requests which are not for a single record
+export interface CollectionQuery {
+  op: 'query' | 'queryRecord' | 'findAll' | 'findMany' | 'findHasMany' | 'findBelongsTo';
+  modelName: string;
+  options: Dict<unknown> | undefined;
+  query?: unknown;
+  link?: string;
+  // the identifiers known when the request is made, such as
+  // the records of a findMany or the owner of a relationship
+  identifiers?: RecordIdentifier[];
+}
+
 export interface Request {
-  data: Operation[];
+  data: (Operation | CollectionQuery)[];
   options?: any;
 }
 
-export type RequestStates = 'pending' | 'fulfilled' | 'rejected';
+export type RequestStates = 'pending' | 'fulfilled' | 'rejected' | 'aborted';
 
 export interface RequestState {
   state: RequestStates;
@@ -38,3 +56,80 @@ export interface Response {
   // rawData: unknown;
   data: unknown;
 }
+
+// transport level details of the adapter response to a request
+export interface ResponseInfo {
+  status?: number;
+  statusText?: string;
+  headers?: Dict<unknown>;
+}
+
+// attached as `conflict` to the ConflictError a save is rejected with,
+// and as `conflicts` when a transaction is rejected
+export interface SaveConflict {
+  identifier: StableRecordIdentifier;
+  // the version of the record the save was based on
+  version: string | null;
+  // the changes which were being saved
+  local: {
+    attributes: ChangedAttributesHash;
+    relationships: ChangedRelationshipsHash;
+  };
+  // the server's copy of the record, when the response included it
+  server: JsonApiResource | null;
+}
+
+export interface RequestHistoryEntry {
+  requestState: RequestState;
+  // timestamps in ms since the epoch
+  startedAt: number;
+  endedAt: number;
+  duration: number;
+  response: ResponseInfo | null;
+}
+
+export interface RequestHistoryOptions {
+  // the number of settled requests kept for each record, at least 1
+  perRecord?: number;
+  // the number of settled requests kept across all records and queries
+  global?: number;
+}
+
+export type BackoffCurve = 'exponential' | 'linear' | 'constant' | ((attempt: number, baseDelay: number) => number);
+
+export interface RetryPolicy {
+  // total number of attempts, including the first
+  maxAttempts?: number;
+  // delay in ms before the first retry
+  baseDelay?: number;
+  maxDelay?: number;
+  backoff?: BackoffCurve;
+  // fraction (0-1) of each delay which is randomized
+  jitter?: number;
+  // the `code` of AdapterErrors which should be retried, e.g. `ServerError`
+  retryableErrors?: string[];
+  retryableStatuses?: number[];
+  // whether failures to reach the server at all (e.g. fetch's TypeError) are retried
+  retryNetworkErrors?: boolean;
+  retryableOperations?: RequestOperation[];
+}
+
+export interface OfflineQueueOptions {
+  storage: PersistentStorage;
+  // the key under which queued mutations are persisted
+  key?: string;
+  // defaults to `navigator.onLine`
+  isOnline?: () => boolean;
+}
+
+// all durations are in milliseconds, measured from when the data was fetched
+export interface CachePolicy {
+  // how long fetched data is used without making a request
+  maxAge?: number;
+  // how long after `maxAge` stale data is used while it is refetched in the background
+  staleWhileRevalidate?: number;
+  // how long after `maxAge` stale data is used when a refetch fails
+  staleIfError?: number;
+}
+
+export type CacheStatus = 'fresh' | 'stale' | 'expired';
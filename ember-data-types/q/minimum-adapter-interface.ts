@@ -4,6 +4,7 @@ import type SnapshotRecordArray from '@ember-data/store/-private/network/snapsho
 import type AdapterPopulatedRecordArray from '@ember-data/store/-private/record-arrays/adapter-populated-record-array';
 
 import type { ModelSchema } from './ds-model';
+import type { RetryPolicy } from './fetch-manager';
 import type { RelationshipSchema } from './record-data-schemas';
 import type { Dict } from './utils';
 
@@ -297,6 +298,87 @@ export interface MinimumAdapterInterface {
    */
   deleteRecord(store: Store, schema: ModelSchema, snapshot: Snapshot): Promise<AdapterPayload>;
 
+  /**
+   * `adapter.createRecords` takes the creates of several records of the same type and
+   * should persist them in a single request. When implemented, creates of a type which are
+   * scheduled in the same runloop (for instance by `RecordArray.save()`) are coalesced into
+   * a call to `createRecords` instead of one call to `createRecord` per record.
+   *
+   * The response will be fed to the associated serializer's `normalizeResponse` method
+   * with the `requestType` set to `createRecords`, which should return a `JSON:API` document
+   * whose `data` is an array holding the resource for each snapshot, in the same order.
+   *
+   * If the adapter rejects, the save of every record in the batch is rejected. Each record
+   * receives a copy of the error holding only the `errors` whose `source.pointer` refers to
+   * its index in `data`, such as `/data/1/attributes/title`, rebased onto `/data`.
+   *
+   * @method createRecords [OPTIONAL]
+   * @public
+   * @optional
+   * @param {Store} store The store service that initiated the request
+   * @param {ModelSchema} schema the schema of the records' type
+   * @param {Array<Snapshot>} snapshots A snapshot of each record being created
+   * @return {Promise} a promise resolving with resource data for each record
+   */
+  createRecords?(store: Store, schema: ModelSchema, snapshots: Snapshot[]): Promise<AdapterPayload>;
+
+  /**
+   * `adapter.updateRecords` is the counterpart of `createRecords` for records being updated,
+   * and is used in place of `updateRecord` when several records of a type are saved in the
+   * same runloop. Its response is normalized with the `requestType` set to `updateRecords`.
+   *
+   * @method updateRecords [OPTIONAL]
+   * @public
+   * @optional
+   * @param {Store} store The store service that initiated the request
+   * @param {ModelSchema} schema the schema of the records' type
+   * @param {Array<Snapshot>} snapshots A snapshot of each record being updated
+   * @return {Promise} a promise resolving with resource data for each record
+   */
+  updateRecords?(store: Store, schema: ModelSchema, snapshots: Snapshot[]): Promise<AdapterPayload>;
+
+  /**
+   * `adapter.deleteRecords` is the counterpart of `createRecords` for records being deleted,
+   * and is used in place of `deleteRecord` when several records of a type are deleted in the
+   * same runloop. Usually the response will be empty, otherwise it is normalized with the
+   * `requestType` set to `deleteRecords`.
+   *
+   * @method deleteRecords [OPTIONAL]
+   * @public
+   * @optional
+   * @param {Store} store The store service that initiated the request
+   * @param {ModelSchema} schema the schema of the records' type
+   * @param {Array<Snapshot>} snapshots A snapshot of each record being deleted
+   * @return {Promise} a promise resolving when the records are deleted
+   */
+  deleteRecords?(store: Store, schema: ModelSchema, snapshots: Snapshot[]): Promise<AdapterPayload>;
+
+  /**
+   * `adapter.commitTransaction` takes the saves collected by `store.transaction` and
+   * should persist them together, so that either all of them or none of them are applied.
+   *
+   * Each snapshot's `operation` is the adapter method which would otherwise have been
+   * called for it: `createRecord`, `updateRecord` or `deleteRecord`.
+   *
+   * It should return a `Promise` which fulfills with an array containing a response for
+   * each snapshot, in the same order. Each response will be fed to the serializer for the
+   * record's type with the `requestType` set to the snapshot's `operation`, exactly as the
+   * response to the individual save would have been. A false-y response is treated as an
+   * empty response to that save.
+   *
+   * If the promise rejects, the save of every record in the transaction is rejected. To
+   * attribute validation errors to individual records, the rejection may carry a `recordErrors`
+   * array holding the JSON:API errors for each snapshot, in the same order.
+   *
+   * @method commitTransaction [OPTIONAL]
+   * @public
+   * @optional
+   * @param {Store} store The store service that initiated the request
+   * @param {Array<Snapshot>} snapshots A snapshot of each record being saved
+   * @return {Promise} a promise resolving with an array of responses
+   */
+  commitTransaction?(store: Store, snapshots: Snapshot[]): Promise<(AdapterPayload | null)[]>;
+
   /**
    * `adapter.findBelongsTo` takes a request to fetch a related resource located at a
    * `relatedLink` and should return a `Promise` which fulfills with data for a single
@@ -443,6 +525,33 @@ export interface MinimumAdapterInterface {
    */
   coalesceFindRequests?: boolean;
 
+  /**
+   * When present, failed requests made for this adapter will be retried by the store according
+   * to this policy before the request is rejected. By default `findRecord`, `findMany`, updates and
+   * deletes are retried; other operations such as `query` or `findHasMany` can be added with
+   * `retryableOperations`.
+   *
+   * ```js
+   * export default class ApplicationAdapter extends JSONAPIAdapter {
+   *   retryPolicy = {
+   *     maxAttempts: 4,
+   *     baseDelay: 250,
+   *     retryableStatuses: [429, 502, 503, 504],
+   *   };
+   * }
+   * ```
+   *
+   * `createRecord` is never retried unless it is explicitly listed in `retryableOperations`
+   * and the record was assigned an id on the client, as otherwise a retry of a request which
+   * reached the server could create a duplicate resource.
+   *
+   * @property retryPolicy [OPTIONAL]
+   * @public
+   * @optional
+   * @type {RetryPolicy}
+   */
+  retryPolicy?: RetryPolicy;
+
   /**
    * ⚠️ This Method is only called if `coalesceFindRequests` is `true`.
    *
@@ -19,7 +19,10 @@ export type RequestType =
   | 'query'
   | 'createRecord'
   | 'deleteRecord'
-  | 'updateRecord';
+  | 'updateRecord'
+  | 'createRecords'
+  | 'deleteRecords'
+  | 'updateRecords';
 /**
   @module @ember-data/serializer
  */
@@ -60,7 +63,7 @@ export interface MinimumSerializerInterface {
    *  the request resolved to.
    * @param {string|null} id For a findRecord request, this is the id initially provided
    *  in the call to store.findRecord. Else this value is null.
-   * @param {'findRecord' | 'queryRecord' | 'findAll' | 'findBelongsTo' | 'findHasMany' | 'findMany' | 'query' | 'createRecord' | 'deleteRecord' | 'updateRecord'} requestType The
+   * @param {'findRecord' | 'queryRecord' | 'findAll' | 'findBelongsTo' | 'findHasMany' | 'findMany' | 'query' | 'createRecord' | 'deleteRecord' | 'updateRecord' | 'createRecords' | 'deleteRecords' | 'updateRecords'} requestType The
    *  type of request the Adapter had been asked to perform.
    *
    * @returns {JsonApiDocument} a document following the structure of a JSON:API Document.
@@ -81,6 +84,9 @@ export interface MinimumSerializerInterface {
       | 'createRecord'
       | 'deleteRecord'
       | 'updateRecord'
+      | 'createRecords'
+      | 'deleteRecords'
+      | 'updateRecords'
   ): JsonApiDocument;
 
   /**
@@ -0,0 +1,51 @@
+/**
+ * @module @ember-data/store
+ */
+import type { Dict } from './utils';
+
+/**
+ * A key/value storage backend used by the store to persist data
+ * across page loads. Methods may be synchronous or return a Promise.
+ *
+ * Values must be structured-cloneable: plain objects, arrays, strings,
+ * numbers, booleans and `null`.
+ *
+ * @class PersistentStorage
+ * @public
+ */
+export interface PersistentStorage {
+  getItem(key: string): unknown | Promise<unknown>;
+  setItem(key: string, value: unknown): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+export interface PersistentCacheTypeOptions {
+  /**
+   * how long, in milliseconds, persisted records of this type
+   * may be used before they are evicted
+   */
+  ttl?: number;
+}
+
+export interface PersistentCacheOptions {
+  storage: PersistentStorage;
+  /**
+   * the types to persist, either as a list or as a map
+   * of type to per-type options
+   */
+  types: string[] | Dict<PersistentCacheTypeOptions | true>;
+  /**
+   * the default ttl, in milliseconds, for types which do not set one
+   */
+  ttl?: number;
+  /**
+   * an application version mixed into the schema hash, allowing
+   * persisted data to be discarded when its shape changes
+   * without a change to the schema
+   */
+  version?: string;
+  /**
+   * prefix for the storage keys, defaults to `ember-data:cache`
+   */
+  key?: string;
+}
@@ -0,0 +1,51 @@
+/**
+ * @module @ember-data/store
+ */
+
+/**
+ * A document pushed by the server, in the format of the serializer
+ * for `modelName`. When `modelName` is omitted it is derived from the
+ * `type` of the document's primary data.
+ */
+export interface RealtimeUpdate {
+  event: 'update';
+  modelName?: string;
+  document: unknown;
+}
+
+/**
+ * Signals that the server removed a record. `type` may be either a
+ * model name or the type as it appears in payloads.
+ */
+export interface RealtimeRemoval {
+  event: 'removed' | 'delete';
+  type: string;
+  id: string;
+}
+
+/**
+ * A message delivered by a `RealtimeSource`. A JSON:API document may be
+ * delivered as is, in which case it is treated as a `RealtimeUpdate`.
+ */
+export type RealtimeMessage = RealtimeUpdate | RealtimeRemoval | { data: unknown; included?: unknown[] };
+
+export type RealtimeListener = (message: RealtimeMessage) => void;
+
+/**
+ * The transport the store receives realtime messages through, such as
+ * a wrapper around a `WebSocket` or an `EventSource`.
+ *
+ * @class RealtimeSource
+ * @public
+ */
+export interface RealtimeSource {
+  /**
+   * Starts delivering messages to the listener.
+   *
+   * @method subscribe
+   * @public
+   * @param {Function} listener
+   * @return {Function} stops delivering messages to the listener
+   */
+  subscribe(listener: RealtimeListener): () => void;
+}
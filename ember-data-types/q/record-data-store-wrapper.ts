@@ -1,4 +1,4 @@
-import type { RecordData } from './record-data';
+import type { MergeStrategy, RecordData } from './record-data';
 import type { AttributesSchema, RelationshipsSchema } from './record-data-schemas';
 
 /**
@@ -53,4 +53,14 @@ export interface RecordDataStoreWrapper {
   inverseIsAsyncForRelationship(modelName: string, key: string): boolean;
   notifyErrorsChange(modelName: string, id: string | null, clientId: string | null): void;
   notifyStateChange(modelName: string, id: string | null, clientId: string | null, key?: string): void;
+  notifyConflictsChange(modelName: string, id: string | null, clientId: string | null): void;
+
+  /**
+   * The strategy used to merge pushed attributes with uncommitted local
+   * changes for records of type `modelName`.
+   *
+   * @method mergeStrategyFor
+   * @public
+   */
+  mergeStrategyFor(modelName: string): MergeStrategy;
 }
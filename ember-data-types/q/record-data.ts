@@ -1,5 +1,5 @@
 import type { CollectionResourceRelationship, SingleResourceRelationship } from './ember-data-json-api';
-import type { RecordIdentifier } from './identifier';
+import type { RecordIdentifier, StableRecordIdentifier } from './identifier';
 import type { JsonApiResource, JsonApiValidationError } from './record-data-json-api';
 
 /**
@@ -10,6 +10,26 @@ export interface ChangedAttributesHash {
   [key: string]: [string, string];
 }
 
+// the remote and local state of each changed relationship
+export interface ChangedRelationshipsHash {
+  [key: string]:
+    | [StableRecordIdentifier | null, StableRecordIdentifier | null]
+    | [StableRecordIdentifier[], StableRecordIdentifier[]];
+}
+
+// an attribute changed by the server while it had an uncommitted local change
+export interface AttributeConflict {
+  key: string;
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+}
+
+// returns the value the record should keep locally for the attribute
+export type MergeResolver = (conflict: AttributeConflict, identifier: StableRecordIdentifier) => unknown;
+
+export type MergeStrategy = 'local-wins' | 'remote-wins' | MergeResolver;
+
 export interface RecordData {
   getResourceIdentifier(): RecordIdentifier | undefined;
 
@@ -30,6 +50,9 @@ export interface RecordData {
   rollbackAttributes(): string[];
   changedAttributes(): ChangedAttributesHash;
   hasChangedAttributes(): boolean;
+  changedRelationships?(): ChangedRelationshipsHash;
+  rollbackRelationships?(): string[];
+  getConflicts?(): AttributeConflict[];
   setDirtyAttribute(key: string, value: any): void;
 
   getAttr(key: string): any;
@@ -60,6 +83,14 @@ export interface RecordData {
 
   isDeletionCommitted?(): boolean;
 
+  // the state last acknowledged by the server, used to persist the cache
+  getRemoteResource?(): JsonApiResource | null;
+
+  // captures local changes before an optimistic save so that they
+  // can be reverted if the save fails
+  createCheckpoint?(): unknown;
+  restoreCheckpoint?(checkpoint: unknown): void;
+
   setIsDeleted?(isDeleted: boolean): void;
 
   // Private and experimental
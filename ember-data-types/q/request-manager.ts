@@ -0,0 +1,94 @@
+import type Store from '@ember-data/store';
+import type Snapshot from '@ember-data/store/-private/network/snapshot';
+import type SnapshotRecordArray from '@ember-data/store/-private/network/snapshot-record-array';
+import type AdapterPopulatedRecordArray from '@ember-data/store/-private/record-arrays/adapter-populated-record-array';
+
+import type { ModelSchema } from './ds-model';
+import type { Request } from './fetch-manager';
+import type { AdapterPayload, MinimumAdapterInterface } from './minimum-adapter-interface';
+import type { RelationshipSchema } from './record-data-schemas';
+import type { FindOptions } from './store';
+import type { Dict } from './utils';
+
+/**
+ * @module @ember-data/store
+ */
+
+export type RequestOperation =
+  | 'findRecord'
+  | 'findMany'
+  | 'findAll'
+  | 'query'
+  | 'queryRecord'
+  | 'findHasMany'
+  | 'findBelongsTo'
+  | 'createRecord'
+  | 'updateRecord'
+  | 'deleteRecord'
+  | 'createRecords'
+  | 'updateRecords'
+  | 'deleteRecords'
+  | 'commitTransaction';
+
+/**
+ * The context passed to each handler registered with the store's
+ * `RequestManager`. Which members are present depends upon the `op`,
+ * and mirror the arguments the matching adapter method receives.
+ *
+ * @class RequestContext
+ * @public
+ */
+export interface RequestContext {
+  /**
+   * The name of the adapter method that will be invoked
+   * by the terminal handler.
+   *
+   * @property {String} op
+   * @public
+   */
+  op: RequestOperation;
+  store: Store;
+  adapter: MinimumAdapterInterface;
+  /**
+   * The type of the primary data the request is expected
+   * to return.
+   *
+   * @property {String} modelName
+   * @public
+   */
+  modelName: string;
+  modelClass: ModelSchema;
+  id?: string | null;
+  ids?: string[];
+  snapshot?: Snapshot;
+  snapshots?: Snapshot[];
+  snapshotRecordArray?: SnapshotRecordArray;
+  query?: Dict<unknown>;
+  recordArray?: AdapterPopulatedRecordArray;
+  link?: string;
+  relationship?: RelationshipSchema;
+  options?: FindOptions;
+  /**
+   * The requests tracked by the request state service which this
+   * adapter call serves, used to attribute the response to them.
+   *
+   * @property {Request[]} requests
+   * @internal
+   */
+  requests?: Request[];
+}
+
+export type NextFn = (context?: RequestContext) => Promise<AdapterPayload>;
+
+/**
+ * A handler may inspect or alter the context, call `next` to pass
+ * the request further down the chain (zero, one, or several times),
+ * and either return or transform the result. Calling `next()` without
+ * a context passes on the context the handler was given.
+ *
+ * @class Handler
+ * @public
+ */
+export interface Handler {
+  handle(context: RequestContext, next: NextFn): Promise<AdapterPayload> | AdapterPayload;
+}
@@ -1,9 +1,96 @@
+import type { Links, PaginationLinks } from './ember-data-json-api';
+import type { RecordInstance } from './record-instance';
 import type { Dict } from './utils';
 
+// a page of a query as loaded into an AdapterPopulatedRecordArray
+export interface QueryPage {
+  query: Dict<unknown>;
+  meta: Dict<unknown> | null;
+  links: Links | PaginationLinks | null;
+  // the number of records in the page
+  length: number;
+}
+
+/**
+ * Derives the queries of other pages from a loaded page. Each method
+ * returns `null` when there is no such page.
+ */
+export interface PaginationStrategy {
+  next(page: QueryPage): Dict<unknown> | null;
+  prev(page: QueryPage): Dict<unknown> | null;
+  // pages are numbered from 1
+  page?(page: QueryPage, number: number): Dict<unknown> | null;
+}
+
+export interface PaginationOptions {
+  // defaults to 'links', which reads the query params of links to the same endpoint as the query
+  strategy?: 'links' | 'offset' | PaginationStrategy;
+  // whether loading the next or previous page adds its records to those already loaded
+  infinite?: boolean;
+  // the query param loadPage sets with the 'links' strategy, defaults to 'page[number]'
+  pageParam?: string;
+  // the query params of the 'offset' strategy, default to 'page[offset]' and 'page[limit]'
+  offsetParam?: string;
+  limitParam?: string;
+}
+
 export interface FindOptions {
   reload?: boolean;
   backgroundReload?: boolean;
   include?: string;
   adapterOptions?: Dict<unknown>;
   preload?: Dict<unknown>;
+  signal?: AbortSignal;
+  // set to false to make a request even when an identical one is in flight
+  dedupe?: boolean;
+  // for `query`, whether to use and populate the query cache
+  cache?: boolean;
+  // for saves, whether to revert the changes being saved if the save fails
+  optimistic?: boolean;
+  // for `query`, how the pages of the result are followed
+  pagination?: PaginationOptions;
+}
+
+export interface FilterOptions {
+  // the records to include, defaults to every loaded record of the type
+  where?: (record: RecordInstance) => boolean;
+  // the order of the records, defaults to the order they were loaded in
+  sort?: (a: RecordInstance, b: RecordInstance) => number;
+  // the fields `where` and `sort` read, defaults to every attribute
+  dependentKeys?: string[];
+}
+
+export type LocalQueryValue = string | number | boolean | Date | null;
+
+export interface LocalQueryOperators {
+  eq?: LocalQueryValue;
+  ne?: LocalQueryValue;
+  gt?: LocalQueryValue;
+  gte?: LocalQueryValue;
+  lt?: LocalQueryValue;
+  lte?: LocalQueryValue;
+  in?: LocalQueryValue[];
+  // case insensitive
+  contains?: string;
+}
+
+/**
+ * A query `store.peekQuery` evaluates against the records in the cache.
+ * The keys of `where` are attributes, `id`, or paths through relationships
+ * such as `author.name`; a path through a hasMany matches when any of the
+ * related records does. `sort` takes such keys, prefixed with `-` to sort
+ * in descending order.
+ */
+export interface LocalQuery {
+  where?: Dict<LocalQueryValue | LocalQueryOperators>;
+  sort?: string | string[];
+  limit?: number;
+  offset?: number;
+}
+
+export interface IndexOptions {
+  // the attribute to index, defaults to the name of the index
+  attribute?: string;
+  // whether each value belongs to at most one record
+  unique?: boolean;
 }
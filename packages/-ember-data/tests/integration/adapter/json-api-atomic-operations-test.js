@@ -0,0 +1,225 @@
+import Pretender from 'pretender';
+import { module, test } from 'qunit';
+
+import { setupTest } from 'ember-qunit';
+
+import JSONAPIAdapter from '@ember-data/adapter/json-api';
+import Model, { attr, belongsTo, hasMany } from '@ember-data/model';
+import JSONAPISerializer from '@ember-data/serializer/json-api';
+import { recordIdentifierFor } from '@ember-data/store';
+
+const ATOMIC = 'application/vnd.api+json;ext="https://jsonapi.org/ext/atomic"';
+
+function header(request, name) {
+  const key = Object.keys(request.requestHeaders).find((key) => key.toLowerCase() === name);
+  return key ? request.requestHeaders[key] : undefined;
+}
+
+class Post extends Model {
+  @attr title;
+  @attr subTitle;
+  @hasMany('comment', { async: false, inverse: 'post' }) comments;
+}
+
+class Comment extends Model {
+  @attr body;
+  @belongsTo('post', { async: false, inverse: 'comments' }) post;
+}
+
+module('integration/adapter/json-api-atomic-operations', function (hooks) {
+  setupTest(hooks);
+  let server;
+
+  hooks.beforeEach(function () {
+    const { owner } = this;
+    owner.register('model:post', Post);
+    owner.register('model:comment', Comment);
+    owner.register('adapter:application', class extends JSONAPIAdapter {});
+    owner.register('serializer:application', class extends JSONAPISerializer {});
+    server = new Pretender();
+
+    this.store = owner.lookup('service:store');
+    this.store.push({
+      data: [
+        { type: 'post', id: '1', attributes: { title: 'Old' } },
+        { type: 'post', id: '2', attributes: { title: 'Doomed' } },
+      ],
+    });
+  });
+
+  hooks.afterEach(function () {
+    server.shutdown();
+  });
+
+  test('saves are sent as atomic operations and new records receive the id of their result', async function (assert) {
+    const { store } = this;
+    let request;
+    server.post('/operations', (req) => {
+      request = req;
+      const operations = JSON.parse(req.requestBody)['atomic:operations'];
+      return [
+        200,
+        { 'content-type': ATOMIC },
+        JSON.stringify({
+          'atomic:results': [
+            { data: { type: 'posts', id: '3', lid: operations[0].data.lid, attributes: { title: 'New' } } },
+            { data: { type: 'comments', id: '4', attributes: { body: 'First' } } },
+            { data: { type: 'posts', id: '1', attributes: { title: 'Updated' } } },
+            {},
+          ],
+        }),
+      ];
+    });
+
+    const post = store.createRecord('post', { title: 'New' });
+    const comment = store.createRecord('comment', { body: 'First', post });
+    const existing = store.peekRecord('post', '1');
+    existing.title = 'Updated';
+    const doomed = store.peekRecord('post', '2');
+    doomed.deleteRecord();
+    const postLid = recordIdentifierFor(post).lid;
+    const commentLid = recordIdentifierFor(comment).lid;
+
+    await store.transaction((tx) => {
+      tx.save(post);
+      tx.save(comment);
+      tx.save(existing);
+      tx.save(doomed);
+    });
+
+    assert.strictEqual(header(request, 'content-type'), ATOMIC, 'the atomic extension content type was sent');
+    assert.strictEqual(header(request, 'accept'), ATOMIC, 'the atomic extension is accepted');
+    assert.deepEqual(
+      JSON.parse(request.requestBody),
+      {
+        'atomic:operations': [
+          {
+            op: 'add',
+            data: {
+              type: 'posts',
+              lid: postLid,
+              attributes: { title: 'New' },
+            },
+          },
+          {
+            op: 'add',
+            data: {
+              type: 'comments',
+              lid: commentLid,
+              attributes: { body: 'First' },
+              relationships: { post: { data: { type: 'posts', lid: postLid } } },
+            },
+          },
+          {
+            op: 'update',
+            data: { type: 'posts', id: '1', attributes: { title: 'Updated' } },
+          },
+          { op: 'remove', ref: { type: 'posts', id: '2' } },
+        ],
+      },
+      'the operations were serialized'
+    );
+
+    assert.strictEqual(post.id, '3', 'the created post received its id');
+    assert.strictEqual(comment.id, '4', 'the created comment received its id');
+    assert.strictEqual(store.peekRecord('post', '3'), post, 'the post can be found by its new id');
+    assert.strictEqual(comment.post, post, 'the relationship is intact');
+    assert.false(existing.hasDirtyAttributes, 'the update was committed');
+    assert.strictEqual(doomed.currentState.stateName, 'root.deleted.saved', 'the delete was committed');
+  });
+
+  test('errors are mapped to the record of the operation they point to', async function (assert) {
+    const { store } = this;
+    server.post('/operations', () => [
+      422,
+      { 'content-type': ATOMIC },
+      JSON.stringify({
+        errors: [
+          { title: 'Invalid', detail: 'is taken', source: { pointer: '/atomic:operations/1/data/attributes/title' } },
+          {
+            title: 'Invalid',
+            detail: 'is too short',
+            source: { pointer: '/atomic:operations/1/data/attributes/title' },
+          },
+        ],
+      }),
+    ]);
+
+    const post = store.createRecord('post', { title: 'New' });
+    const existing = store.peekRecord('post', '1');
+    existing.title = 'Taken';
+
+    try {
+      await store.transaction((tx) => {
+        tx.save(post);
+        tx.save(existing);
+      });
+      assert.ok(false, 'the transaction should have failed');
+    } catch (error) {
+      assert.strictEqual(error.recordErrors.length, 2, 'the errors were split by operation');
+    }
+
+    assert.true(post.isNew && post.isValid, 'the record without errors is not invalid');
+    assert.false(existing.isValid, 'the record with errors is invalid');
+    assert.deepEqual(
+      existing.errors.errorsFor('title').map((error) => error.message),
+      ['is taken', 'is too short'],
+      'the errors were applied to the attribute'
+    );
+  });
+
+  test('errors are mapped to attributes by the serializer', async function (assert) {
+    const { store } = this;
+    server.post('/operations', () => [
+      422,
+      { 'content-type': ATOMIC },
+      JSON.stringify({
+        errors: [
+          {
+            title: 'Invalid',
+            detail: 'is required',
+            source: { pointer: '/atomic:operations/0/data/attributes/sub-title' },
+          },
+        ],
+      }),
+    ]);
+
+    const existing = store.peekRecord('post', '1');
+    existing.subTitle = '';
+
+    await assert.rejects(store.transaction((tx) => tx.save(existing)));
+
+    assert.deepEqual(
+      existing.errors.errorsFor('subTitle').map((error) => error.message),
+      ['is required'],
+      'the key of the error was normalized'
+    );
+  });
+
+  test('the version each save was based on is sent in the meta of its operation', async function (assert) {
+    const { store } = this;
+    let operations;
+    server.get('/posts/3', () => [
+      200,
+      { 'content-type': 'application/vnd.api+json', etag: '"v1"' },
+      JSON.stringify({ data: { type: 'posts', id: '3', attributes: { title: 'Fetched' } } }),
+    ]);
+    server.post('/operations', (req) => {
+      operations = JSON.parse(req.requestBody)['atomic:operations'];
+      return [200, { 'content-type': ATOMIC }, JSON.stringify({ 'atomic:results': [{}, {}] })];
+    });
+
+    const fetched = await store.findRecord('post', '3');
+    fetched.title = 'Changed';
+    const existing = store.peekRecord('post', '1');
+    existing.title = 'Updated';
+
+    await store.transaction((tx) => {
+      tx.save(fetched);
+      tx.save(existing);
+    });
+
+    assert.deepEqual(operations[0].meta, { version: '"v1"' }, 'the version of the fetched record was sent');
+    assert.strictEqual(operations[1].meta, undefined, 'no version was sent for a record without one');
+  });
+});
@@ -0,0 +1,162 @@
+import { module, test } from 'qunit';
+import { Promise, resolve } from 'rsvp';
+
+import { setupTest } from 'ember-qunit';
+
+import { AbortError } from '@ember-data/adapter/error';
+import RESTAdapter from '@ember-data/adapter/rest';
+import Model, { attr } from '@ember-data/model';
+import RESTSerializer from '@ember-data/serializer/rest';
+import { recordIdentifierFor } from '@ember-data/store';
+
+class Post extends Model {
+  @attr name;
+}
+
+// resolves with the response unless the passed signal aborts first,
+// in which case it rejects the way `fetch` does
+function mockFetch(adapter, response) {
+  const calls = [];
+  adapter._fetchRequest = (hash) => {
+    calls.push(hash);
+    return new Promise((resolvePromise, reject) => {
+      if (hash.signal) {
+        hash.signal.addEventListener('abort', () => {
+          let error = new Error('The user aborted a request.');
+          error.name = 'AbortError';
+          reject(error);
+        });
+      }
+      if (response) {
+        resolvePromise({
+          text() {
+            return resolve(JSON.stringify(response));
+          },
+          ok: true,
+          status: 200,
+        });
+      }
+    });
+  };
+  return calls;
+}
+
+module('integration/adapter/rest_adapter - REST Adapter - AbortSignal', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    this.owner.register('model:post', Post);
+    this.owner.register('adapter:application', class extends RESTAdapter {});
+    this.owner.register('serializer:application', class extends RESTSerializer {});
+  });
+
+  test('the signal passed to findRecord is handed to fetch', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    const calls = mockFetch(store.adapterFor('application'), { posts: [{ id: '1', name: 'Rails is omakase' }] });
+    const controller = new AbortController();
+
+    const post = await store.findRecord('post', '1', { signal: controller.signal });
+
+    assert.strictEqual(post.name, 'Rails is omakase', 'the record loaded');
+    assert.strictEqual(calls[0].signal, controller.signal, 'the signal was passed to fetch');
+  });
+
+  test('the signal passed to query is handed to fetch', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    const calls = mockFetch(store.adapterFor('application'), { posts: [] });
+    const controller = new AbortController();
+
+    await store.query('post', { name: 'Rails' }, { signal: controller.signal });
+
+    assert.strictEqual(calls[0].signal, controller.signal, 'the signal was passed to fetch');
+  });
+
+  test('coalesced requests are only cancellable when they share a signal', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    const adapter = store.adapterFor('application');
+    adapter.coalesceFindRequests = true;
+    const calls = mockFetch(adapter, {
+      posts: [
+        { id: '1', name: 'Rails is omakase' },
+        { id: '2', name: 'Ember is omakase' },
+      ],
+    });
+    const shared = new AbortController();
+
+    await Promise.all([
+      store.findRecord('post', '1', { signal: shared.signal }),
+      store.findRecord('post', '2', { signal: shared.signal }),
+    ]);
+    assert.strictEqual(calls[0].signal, shared.signal, 'the shared signal was passed to fetch');
+
+    await Promise.all([
+      store.findRecord('post', '1', { reload: true, signal: new AbortController().signal }),
+      store.findRecord('post', '2', { reload: true, signal: new AbortController().signal }),
+    ]);
+    assert.strictEqual(calls[1].signal, undefined, 'no signal was passed to fetch');
+  });
+
+  test('requests made without a signal do not receive one', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    const calls = mockFetch(store.adapterFor('application'), { posts: [{ id: '1', name: 'Rails is omakase' }] });
+
+    await store.findRecord('post', '1');
+
+    assert.strictEqual(calls[0].signal, undefined, 'no signal was passed to fetch');
+  });
+
+  test('aborting a findRecord rejects with an AbortError and is recorded as aborted', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    mockFetch(store.adapterFor('application'), null);
+    const controller = new AbortController();
+    const requestStateService = store.getRequestStateService();
+
+    const promise = store.findRecord('post', '1', { signal: controller.signal });
+    const identifier = store.identifierCache.getOrCreateRecordIdentifier({ type: 'post', id: '1' });
+    const states = [];
+    requestStateService.subscribeForRecord(identifier, (request) => states.push(request.state));
+
+    // let the request reach the adapter
+    await new Promise((r) => setTimeout(r, 10));
+    controller.abort();
+
+    await assert.rejects(promise, (error) => error instanceof AbortError, 'we rejected with an AbortError');
+    assert.deepEqual(states, ['aborted'], 'the request was recorded as aborted');
+    assert.strictEqual(requestStateService.getLastRequestForRecord(identifier).state, 'aborted');
+  });
+
+  test('aborting a save is recorded as aborted and the record is no longer saving', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    mockFetch(store.adapterFor('application'), null);
+    const controller = new AbortController();
+    const post = store.push({ data: { type: 'post', id: '1', attributes: { name: 'Rails is omakase' } } });
+    const requestStateService = store.getRequestStateService();
+
+    post.name = 'Ember is omakase';
+    const promise = post.save({ signal: controller.signal });
+    assert.true(post.isSaving, 'precond - the record is saving');
+
+    await new Promise((r) => setTimeout(r, 10));
+    controller.abort();
+
+    await assert.rejects(promise, (error) => error instanceof AbortError);
+    assert.strictEqual(requestStateService.getLastRequestForRecord(recordIdentifierFor(post)).state, 'aborted');
+    assert.false(post.isSaving, 'the record is no longer saving');
+  });
+
+  test('requests the adapter rejects with an AbortError are recorded as aborted', async function (assert) {
+    this.owner.register(
+      'adapter:application',
+      class extends RESTAdapter {
+        findRecord() {
+          return Promise.reject(new AbortError());
+        }
+      }
+    );
+    const store = this.owner.lookup('service:store');
+    const identifier = store.identifierCache.getOrCreateRecordIdentifier({ type: 'post', id: '1' });
+
+    await assert.rejects(store.findRecord('post', '1'));
+    assert.strictEqual(store.getRequestStateService().getLastRequestForRecord(identifier).state, 'aborted');
+  });
+});
@@ -0,0 +1,133 @@
+import { module, test } from 'qunit';
+import { defer, reject, resolve } from 'rsvp';
+
+import { setupTest } from 'ember-qunit';
+
+import Adapter from '@ember-data/adapter';
+import Model, { attr, belongsTo, hasMany } from '@ember-data/model';
+import JSONAPISerializer from '@ember-data/serializer/json-api';
+import { recordIdentifierFor } from '@ember-data/store';
+
+class Post extends Model {
+  @attr title;
+  @attr body;
+  @belongsTo('user', { async: false, inverse: null }) author;
+  @hasMany('tag', { async: false, inverse: null }) tags;
+}
+
+class User extends Model {
+  @attr name;
+}
+
+class Tag extends Model {
+  @attr label;
+}
+
+module('integration/records/optimistic-save', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    const { owner } = this;
+    owner.register('model:post', Post);
+    owner.register('model:user', User);
+    owner.register('model:tag', Tag);
+    owner.register('serializer:application', class extends JSONAPISerializer {});
+    owner.register(
+      'adapter:application',
+      class extends Adapter {
+        updateRecord() {
+          return reject(new Error('refused'));
+        }
+        deleteRecord() {
+          return reject(new Error('refused'));
+        }
+      }
+    );
+
+    const store = (this.store = owner.lookup('service:store'));
+    this.post = store.push({
+      data: {
+        type: 'post',
+        id: '1',
+        attributes: { title: 'original', body: 'body' },
+        relationships: {
+          author: { data: { type: 'user', id: '1' } },
+          tags: { data: [{ type: 'tag', id: '1' }] },
+        },
+      },
+      included: [
+        { type: 'user', id: '1', attributes: { name: 'Chris' } },
+        { type: 'user', id: '2', attributes: { name: 'Wes' } },
+        { type: 'tag', id: '1', attributes: { label: 'one' } },
+        { type: 'tag', id: '2', attributes: { label: 'two' } },
+      ],
+    });
+  });
+
+  test('a failed optimistic save reverts attribute changes', async function (assert) {
+    const { post, store } = this;
+    const notified = [];
+    store._notificationManager.subscribe(recordIdentifierFor(post), (identifier, type, key) => {
+      notified.push(key ? `${type}:${key}` : type);
+    });
+
+    post.title = 'changed';
+    notified.length = 0;
+    await assert.rejects(post.save({ optimistic: true }), /refused/);
+
+    assert.strictEqual(post.title, 'original', 'the title was reverted');
+    assert.false(post.hasDirtyAttributes, 'the record is clean');
+    assert.true(notified.includes('attributes:title'), 'the reverted attribute was notified');
+  });
+
+  test('saves which are not optimistic keep their changes', async function (assert) {
+    const { post } = this;
+
+    post.title = 'changed';
+    await assert.rejects(post.save(), /refused/);
+
+    assert.strictEqual(post.title, 'changed', 'the title was kept');
+    assert.true(post.hasDirtyAttributes, 'the record is dirty');
+  });
+
+  test('changes made while the save is in flight are kept', async function (assert) {
+    const { post, store } = this;
+    const deferred = defer();
+    store.adapterFor('application').updateRecord = () => deferred.promise;
+
+    post.title = 'changed';
+    const saved = post.save({ optimistic: true });
+    await resolve();
+    post.body = 'changed while saving';
+    deferred.reject(new Error('refused'));
+    await assert.rejects(saved, /refused/);
+
+    assert.strictEqual(post.title, 'original', 'the saved change was reverted');
+    assert.strictEqual(post.body, 'changed while saving', 'the later change was kept');
+  });
+
+  test('a failed optimistic save reverts relationship changes', async function (assert) {
+    const { post, store } = this;
+
+    post.author = store.peekRecord('user', '2');
+    post.tags.pushObject(store.peekRecord('tag', '2'));
+    await assert.rejects(post.save({ optimistic: true }), /refused/);
+
+    assert.strictEqual(post.author.id, '1', 'the belongsTo was reverted');
+    assert.deepEqual(
+      post.tags.map((tag) => tag.id),
+      ['1'],
+      'the hasMany was reverted'
+    );
+  });
+
+  test('a failed optimistic delete restores the record', async function (assert) {
+    const { post } = this;
+
+    post.deleteRecord();
+    await assert.rejects(post.save({ optimistic: true }), /refused/);
+
+    assert.false(post.isDeleted, 'the record is no longer deleted');
+    assert.strictEqual(post.title, 'original', 'the record is intact');
+  });
+});
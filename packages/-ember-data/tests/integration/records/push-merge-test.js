@@ -0,0 +1,112 @@
+import { module, test } from 'qunit';
+
+import { setupTest } from 'ember-qunit';
+
+import Model, { attr } from '@ember-data/model';
+import JSONAPISerializer from '@ember-data/serializer/json-api';
+import { recordIdentifierFor } from '@ember-data/store';
+
+class Post extends Model {
+  @attr title;
+  @attr body;
+}
+
+function pushPost(store, attributes) {
+  store.push({ data: { type: 'post', id: '1', attributes } });
+}
+
+module('integration/records/push-merge', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    const { owner } = this;
+    owner.register('model:post', Post);
+    owner.register('serializer:application', class extends JSONAPISerializer {});
+    this.store = owner.lookup('service:store');
+    pushPost(this.store, { title: 'Original', body: 'Text' });
+  });
+
+  test('by default local changes win and the conflict is reported', function (assert) {
+    const { store } = this;
+    const post = store.peekRecord('post', '1');
+    const notifications = [];
+    store._notificationManager.subscribe(recordIdentifierFor(post), (identifier, type) => notifications.push(type));
+    post.title = 'Mine';
+
+    pushPost(store, { title: 'Theirs', body: 'Edited' });
+
+    assert.strictEqual(post.title, 'Mine', 'the local change was kept');
+    assert.strictEqual(post.body, 'Edited', 'attributes without local changes were updated');
+    assert.deepEqual(post.conflicts(), [{ key: 'title', base: 'Original', local: 'Mine', remote: 'Theirs' }]);
+    assert.true(notifications.includes('conflicts'), 'subscribers were notified of the conflict');
+    assert.deepEqual(
+      post.changedAttributes(),
+      { title: ['Theirs', 'Mine'] },
+      'the change is based on the remote value'
+    );
+  });
+
+  test('pushing the base value or the local value is not a conflict', function (assert) {
+    const { store } = this;
+    const post = store.peekRecord('post', '1');
+    post.title = 'Mine';
+
+    pushPost(store, { title: 'Original' });
+    assert.deepEqual(post.conflicts(), [], 'the server did not change the attribute');
+
+    pushPost(store, { title: 'Mine' });
+    assert.deepEqual(post.conflicts(), [], 'the server agreed with the local change');
+    assert.false(post.hasDirtyAttributes, 'the local change was dropped');
+  });
+
+  test('remote-wins discards the conflicting local changes', function (assert) {
+    const { store } = this;
+    store.setMergeStrategy('post', 'remote-wins');
+    const post = store.peekRecord('post', '1');
+    post.title = 'Mine';
+    post.body = 'My text';
+
+    pushPost(store, { title: 'Theirs' });
+
+    assert.strictEqual(post.title, 'Theirs', 'the remote value won');
+    assert.strictEqual(post.body, 'My text', 'local changes without conflicts were kept');
+    assert.deepEqual(
+      post.conflicts().map((conflict) => conflict.key),
+      ['title'],
+      'the conflict was reported'
+    );
+  });
+
+  test('a merge callback chooses the value to keep', function (assert) {
+    const { store } = this;
+    const calls = [];
+    store.setMergeStrategy('post', (conflict, identifier) => {
+      calls.push([conflict, identifier]);
+      return `${conflict.remote} + ${conflict.local}`;
+    });
+    const post = store.peekRecord('post', '1');
+    post.title = 'Mine';
+
+    pushPost(store, { title: 'Theirs' });
+
+    assert.deepEqual(
+      calls,
+      [[{ key: 'title', base: 'Original', local: 'Mine', remote: 'Theirs' }, recordIdentifierFor(post)]],
+      'the callback received the conflict'
+    );
+    assert.strictEqual(post.title, 'Theirs + Mine', 'the returned value was kept');
+    assert.deepEqual(post.changedAttributes(), { title: ['Theirs', 'Theirs + Mine'] });
+  });
+
+  test('conflicts are cleared when the local changes are rolled back', function (assert) {
+    const { store } = this;
+    const post = store.peekRecord('post', '1');
+    post.title = 'Mine';
+    pushPost(store, { title: 'Theirs' });
+
+    post.rollbackAttributes();
+
+    assert.deepEqual(post.conflicts(), [], 'the conflicts were cleared');
+    assert.strictEqual(post.title, 'Theirs');
+  });
+});
@@ -0,0 +1,107 @@
+import { module, test } from 'qunit';
+import { resolve } from 'rsvp';
+
+import { setupTest } from 'ember-qunit';
+
+import Adapter from '@ember-data/adapter';
+import Model, { attr, belongsTo, hasMany } from '@ember-data/model';
+import JSONAPISerializer from '@ember-data/serializer/json-api';
+
+class Post extends Model {
+  @attr title;
+  @hasMany('comment', { async: true, inverse: 'post' }) comments;
+}
+
+class Comment extends Model {
+  @attr text;
+  @belongsTo('post', { async: true, inverse: 'comments' }) post;
+}
+
+const TOTAL = 5;
+
+function page(number) {
+  const data = [];
+  for (let i = (number - 1) * 2; i < Math.min(number * 2, TOTAL); i++) {
+    data.push({ type: 'comment', id: String(i + 1), attributes: { text: `Comment ${i + 1}` } });
+  }
+  return {
+    data,
+    links: { next: number * 2 < TOTAL ? `/posts/1/comments?page=${number + 1}` : null },
+    meta: { total: TOTAL },
+  };
+}
+
+function ids(array) {
+  return array.map((record) => record.id);
+}
+
+module('integration/relationships/has-many-pagination', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    const { owner } = this;
+    const links = (this.links = []);
+    owner.register('model:post', Post);
+    owner.register('model:comment', Comment);
+    owner.register('serializer:application', class extends JSONAPISerializer {});
+    owner.register(
+      'adapter:application',
+      class extends Adapter {
+        findHasMany(store, snapshot, link) {
+          links.push(link);
+          const number = Number(link.split('page=')[1] || 1);
+          return resolve(page(number));
+        }
+      }
+    );
+    this.store = owner.lookup('service:store');
+    this.post = this.store.push({
+      data: {
+        type: 'post',
+        id: '1',
+        attributes: { title: 'Paginated' },
+        relationships: { comments: { links: { related: '/posts/1/comments' } } },
+      },
+    });
+  });
+
+  test('loadMore follows the next link and adds the page to the members', async function (assert) {
+    const comments = await this.post.comments;
+
+    assert.deepEqual(ids(comments), ['1', '2'], 'the first page was loaded from the related link');
+    assert.true(comments.isPartial, 'the relationship is partially loaded');
+    assert.strictEqual(comments.totalCount, 5, 'the total is read from the meta');
+
+    await comments.loadMore();
+    assert.deepEqual(ids(comments), ['1', '2', '3', '4'], 'the next page was added');
+
+    await comments.loadMore();
+    assert.deepEqual(ids(comments), ['1', '2', '3', '4', '5'], 'the last page was added');
+    assert.false(comments.isPartial, 'every member is loaded');
+    assert.deepEqual(
+      this.links,
+      ['/posts/1/comments', '/posts/1/comments?page=2', '/posts/1/comments?page=3'],
+      'each page was requested once'
+    );
+    assert.strictEqual(comments.links.related, '/posts/1/comments', 'the related link is kept');
+  });
+
+  test('reloading after loading more pages starts from the first page', async function (assert) {
+    const comments = await this.post.comments;
+    await comments.loadMore();
+
+    await comments.reload();
+
+    assert.deepEqual(ids(comments), ['1', '2'], 'the related link replaced the members');
+    assert.true(comments.isPartial);
+  });
+
+  test('loadMore asserts when there is no next page', async function (assert) {
+    this.post = this.store.push({
+      data: { type: 'post', id: '2', relationships: { comments: { data: [] } } },
+    });
+    const comments = await this.post.comments;
+
+    assert.expectAssertion(() => comments.loadMore(), /There is no next page to load/);
+  });
+});
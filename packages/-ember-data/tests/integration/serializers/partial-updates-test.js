@@ -0,0 +1,128 @@
+import { module, test } from 'qunit';
+import { resolve } from 'rsvp';
+
+import { setupTest } from 'ember-qunit';
+
+import JSONAPIAdapter from '@ember-data/adapter/json-api';
+import Model, { attr, belongsTo, hasMany } from '@ember-data/model';
+import JSONAPISerializer from '@ember-data/serializer/json-api';
+
+class Post extends Model {
+  @attr title;
+  @attr body;
+  @belongsTo('user', { async: false, inverse: null }) author;
+  @hasMany('tag', { async: false, inverse: null }) tags;
+}
+
+class User extends Model {
+  @attr name;
+}
+
+class Tag extends Model {
+  @attr label;
+}
+
+module('integration/serializers/partial-updates', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    const { owner } = this;
+    const requests = (this.requests = []);
+    owner.register('model:post', Post);
+    owner.register('model:user', User);
+    owner.register('model:tag', Tag);
+    owner.register(
+      'adapter:application',
+      class extends JSONAPIAdapter {
+        ajax(url, method, options) {
+          requests.push({ method, data: options.data });
+          return resolve(method === 'POST' ? { data: { type: 'posts', id: 'new' } } : null);
+        }
+      }
+    );
+    owner.register(
+      'serializer:application',
+      class extends JSONAPISerializer {
+        partialUpdates = true;
+      }
+    );
+
+    this.store = owner.lookup('service:store');
+    this.store.push({
+      data: {
+        type: 'post',
+        id: '1',
+        attributes: { title: 'Rails is omakase', body: 'Yep' },
+        relationships: {
+          author: { data: { type: 'user', id: '1' } },
+          tags: { data: [{ type: 'tag', id: '1' }] },
+        },
+      },
+      included: [
+        { type: 'user', id: '1' },
+        { type: 'user', id: '2' },
+        { type: 'tag', id: '1' },
+        { type: 'tag', id: '2' },
+      ],
+    });
+  });
+
+  test('updates only serialize the changed attributes', async function (assert) {
+    const post = this.store.peekRecord('post', '1');
+    post.title = 'Ember is omakase';
+
+    await post.save();
+
+    assert.deepEqual(
+      this.requests[0].data,
+      { data: { type: 'posts', id: '1', attributes: { title: 'Ember is omakase' } } },
+      'only the title was sent'
+    );
+  });
+
+  test('updates serialize the relationships whose local state differs from the remote state', async function (assert) {
+    const { store } = this;
+    const post = store.peekRecord('post', '1');
+    post.author = store.peekRecord('user', '2');
+    post.tags.pushObject(store.peekRecord('tag', '2'));
+
+    await post.save();
+
+    assert.deepEqual(
+      this.requests[0].data,
+      {
+        data: {
+          type: 'posts',
+          id: '1',
+          relationships: {
+            author: { data: { type: 'users', id: '2' } },
+            tags: {
+              data: [
+                { type: 'tags', id: '1' },
+                { type: 'tags', id: '2' },
+              ],
+            },
+          },
+        },
+      },
+      'only the changed relationships were sent'
+    );
+  });
+
+  test('created records are serialized in full', async function (assert) {
+    const { store } = this;
+    await store.createRecord('post', { title: 'New', body: 'Text', author: store.peekRecord('user', '1') }).save();
+
+    assert.deepEqual(
+      this.requests[0].data,
+      {
+        data: {
+          type: 'posts',
+          attributes: { title: 'New', body: 'Text' },
+          relationships: { author: { data: { type: 'users', id: '1' } }, tags: { data: [] } },
+        },
+      },
+      'every field was sent'
+    );
+  });
+});
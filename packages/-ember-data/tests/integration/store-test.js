@@ -184,6 +184,18 @@ module('integration/store - destroy', function (hooks) {
     await settled();
   });
 
+  test('fetches which were scheduled but not yet made are rejected when the store is destroyed', async function (assert) {
+    let store = this.owner.lookup('service:store');
+    let requestPromise;
+
+    run(() => {
+      requestPromise = store.findRecord('car', '1');
+      store._fetchManager.destroy();
+    });
+
+    await assert.rejects(requestPromise, /Unable to fetch '<car:1>' as the store was destroyed/);
+  });
+
   test('destroying the store correctly cleans everything up', async function (assert) {
     let car, person;
     let store = this.owner.lookup('service:store');
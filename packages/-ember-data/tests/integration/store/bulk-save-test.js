@@ -0,0 +1,221 @@
+import { module, test } from 'qunit';
+import { all, allSettled, reject, resolve } from 'rsvp';
+
+import { setupTest } from 'ember-qunit';
+
+import Adapter from '@ember-data/adapter';
+import { InvalidError, ServerError } from '@ember-data/adapter/error';
+import Model, { attr, hasMany } from '@ember-data/model';
+import JSONAPISerializer from '@ember-data/serializer/json-api';
+
+class Message extends Model {
+  @attr body;
+  @attr isRead;
+}
+
+class Inbox extends Model {
+  @hasMany('message', { async: false, inverse: null }) messages;
+}
+
+module('integration/store/bulk-save', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    const { owner } = this;
+    const calls = (this.calls = []);
+    const context = this;
+    this.response = null;
+
+    owner.register('model:message', Message);
+    owner.register('model:inbox', Inbox);
+    owner.register('serializer:application', class extends JSONAPISerializer {});
+    owner.register(
+      'adapter:inbox',
+      class extends Adapter {
+        createRecord() {
+          calls.push(['createRecord', 'inbox']);
+          return resolve({ data: { type: 'inbox', id: '3' } });
+        }
+      }
+    );
+    owner.register(
+      'adapter:application',
+      class extends Adapter {
+        updateRecord(store, type, snapshot) {
+          calls.push(['updateRecord', snapshot.id]);
+          return resolve();
+        }
+        createRecord(store, type, snapshot) {
+          calls.push(['createRecord', snapshot.attr('body')]);
+          return resolve({ data: { type: 'message', id: 'single' } });
+        }
+        updateRecords(store, type, snapshots) {
+          calls.push(['updateRecords', snapshots.map((snapshot) => snapshot.id)]);
+          if (context.response) {
+            return context.response();
+          }
+          return resolve({
+            data: snapshots.map((snapshot) => ({ type: 'message', id: snapshot.id, attributes: { body: 'saved' } })),
+          });
+        }
+        createRecords(store, type, snapshots) {
+          calls.push(['createRecords', snapshots.map((snapshot) => snapshot.attr('body'))]);
+          return resolve({
+            data: snapshots.map((snapshot, i) => ({ type: 'message', id: `new-${i}` })),
+            included: [{ type: 'inbox', id: '2' }],
+          });
+        }
+      }
+    );
+
+    this.store = owner.lookup('service:store');
+    this.store.push({
+      data: [
+        { type: 'message', id: '1', attributes: { body: 'one', isRead: false } },
+        { type: 'message', id: '2', attributes: { body: 'two', isRead: false } },
+        {
+          type: 'inbox',
+          id: '1',
+          relationships: {
+            messages: {
+              data: [
+                { type: 'message', id: '1' },
+                { type: 'message', id: '2' },
+              ],
+            },
+          },
+        },
+      ],
+    });
+  });
+
+  test('RecordArray#save sends the saves of a type in a single request', async function (assert) {
+    const { store } = this;
+    const messages = store.peekAll('message');
+    messages.forEach((message) => (message.isRead = true));
+
+    await messages.save();
+
+    assert.deepEqual(this.calls, [['updateRecords', ['1', '2']]], 'one request was made');
+    assert.deepEqual(
+      messages.map((message) => [message.body, message.hasDirtyAttributes]),
+      [
+        ['saved', false],
+        ['saved', false],
+      ],
+      'each record was updated from its resource in the response'
+    );
+  });
+
+  test('ManyArray#save sends the saves of a type in a single request', async function (assert) {
+    const { store } = this;
+    const inbox = store.peekRecord('inbox', '1');
+    inbox.messages.forEach((message) => (message.isRead = true));
+
+    await inbox.messages.save();
+
+    assert.deepEqual(this.calls, [['updateRecords', ['1', '2']]], 'one request was made');
+  });
+
+  test('new records receive the id of their resource in the response', async function (assert) {
+    const { store } = this;
+    const first = store.createRecord('message', { body: 'first' });
+    const second = store.createRecord('message', { body: 'second' });
+
+    await all([first.save(), second.save()]);
+
+    assert.deepEqual(this.calls, [['createRecords', ['first', 'second']]], 'one request was made');
+    assert.deepEqual([first.id, second.id], ['new-0', 'new-1'], 'the ids were assigned in order');
+    assert.ok(store.peekRecord('inbox', '2'), 'included resources were pushed');
+  });
+
+  test('a single save uses the adapter hook for one record', async function (assert) {
+    const { store } = this;
+    const message = store.peekRecord('message', '1');
+    message.isRead = true;
+
+    await message.save();
+
+    assert.deepEqual(this.calls, [['updateRecord', '1']], 'the single record hook was used');
+  });
+
+  test('saves of a batch which fails are all rejected', async function (assert) {
+    const { store } = this;
+    this.response = () => reject(new Error('nope'));
+    const [one, two] = store.peekAll('message').slice();
+    one.isRead = true;
+    two.isRead = true;
+
+    const results = await allSettled([one.save(), two.save()]);
+
+    assert.deepEqual(
+      results.map((result) => [result.state, result.reason && result.reason.message]),
+      [
+        ['rejected', 'nope'],
+        ['rejected', 'nope'],
+      ],
+      'each save was rejected with the error'
+    );
+    assert.true(one.isError && two.isError, 'the records are in an error state');
+  });
+
+  test('saves are sent in the order they were scheduled', async function (assert) {
+    const { store } = this;
+    const first = store.createRecord('message', { body: 'first' });
+    const inbox = store.createRecord('inbox');
+    const second = store.createRecord('message', { body: 'second' });
+
+    await all([first.save(), inbox.save(), second.save()]);
+
+    assert.deepEqual(
+      this.calls,
+      [
+        ['createRecords', ['first', 'second']],
+        ['createRecord', 'inbox'],
+      ],
+      'the batch was sent where its first save was scheduled'
+    );
+  });
+
+  test('the errors of a rejected batch are applied to the records they point to', async function (assert) {
+    const { store } = this;
+    this.response = () =>
+      reject(
+        new InvalidError([
+          { title: 'Invalid Attribute', detail: 'is too long', source: { pointer: '/data/1/attributes/body' } },
+        ])
+      );
+    const [one, two] = store.peekAll('message').slice();
+    one.body = 'changed';
+    two.body = 'a much longer body';
+
+    await allSettled([one.save(), two.save()]);
+
+    assert.deepEqual(
+      two.errors.errorsFor('body').map((error) => error.message),
+      ['is too long'],
+      'the record the error points to received it'
+    );
+    assert.strictEqual(one.errors.errorsFor('body').length, 0, 'the other record did not');
+    assert.false(one.isValid, 'the other record was still rejected');
+  });
+
+  test('a batch rejected with a server error does not invalidate its records', async function (assert) {
+    const { store } = this;
+    const error = new ServerError([{ status: '500', title: 'Internal Server Error' }]);
+    this.response = () => reject(error);
+    const [one, two] = store.peekAll('message').slice();
+    one.isRead = true;
+    two.isRead = true;
+
+    const results = await allSettled([one.save(), two.save()]);
+
+    assert.deepEqual(
+      results.map((result) => result.reason),
+      [error, error],
+      'each save was rejected with the error'
+    );
+    assert.true(one.isError && two.isError, 'the records are in an error state');
+    assert.true(one.isValid && two.isValid, 'the records are still valid');
+  });
+});
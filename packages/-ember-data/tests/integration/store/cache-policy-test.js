@@ -0,0 +1,143 @@
+import { settled } from '@ember/test-helpers';
+
+import { module, test } from 'qunit';
+import { reject, resolve } from 'rsvp';
+
+import { setupTest } from 'ember-qunit';
+
+import Adapter from '@ember-data/adapter';
+import Model, { attr } from '@ember-data/model';
+import JSONAPISerializer from '@ember-data/serializer/json-api';
+import { recordIdentifierFor } from '@ember-data/store';
+
+class Post extends Model {
+  @attr title;
+}
+
+const MINUTE = 60 * 1000;
+
+module('integration/store/cache-policy', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    const { owner } = this;
+    const calls = (this.calls = []);
+    this.fail = false;
+    const context = this;
+
+    owner.register('model:post', Post);
+    owner.register('serializer:application', class extends JSONAPISerializer {});
+    owner.register(
+      'adapter:application',
+      class extends Adapter {
+        shouldReloadRecord() {
+          return false;
+        }
+        shouldBackgroundReloadRecord() {
+          return false;
+        }
+        findRecord(store, type, id) {
+          calls.push(`findRecord ${id}`);
+          if (context.fail) {
+            return reject(new Error('server unavailable'));
+          }
+          return resolve({ data: { type: 'post', id, attributes: { title: `fetched ${calls.length}` } } });
+        }
+        findAll() {
+          calls.push('findAll');
+          return resolve({ data: [{ type: 'post', id: '1', attributes: { title: 'from findAll' } }] });
+        }
+      }
+    );
+  });
+
+  async function fetchedPost(store, age) {
+    const post = await store.findRecord('post', '1');
+    store.getRequestStateService().didFetch([recordIdentifierFor(post)], Date.now() - age);
+    return post;
+  }
+
+  test('fresh records are used without a request', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    store.setCachePolicy('post', { maxAge: MINUTE });
+    await fetchedPost(store, 0);
+
+    await store.findRecord('post', '1');
+
+    assert.deepEqual(this.calls, ['findRecord 1'], 'no further request was made');
+  });
+
+  test('stale records are returned while they are refetched in the background', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    store.setCachePolicy('post', { maxAge: MINUTE, staleWhileRevalidate: MINUTE });
+    const post = await fetchedPost(store, 1.5 * MINUTE);
+
+    const found = await store.findRecord('post', '1');
+    assert.strictEqual(found.title, 'fetched 1', 'the stale record was returned');
+
+    await settled();
+    assert.deepEqual(this.calls, ['findRecord 1', 'findRecord 1'], 'a background request was made');
+    assert.strictEqual(post.title, 'fetched 2', 'the record was revalidated');
+  });
+
+  test('expired records are refetched before resolving', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    store.setCachePolicy('post', { maxAge: MINUTE, staleWhileRevalidate: MINUTE });
+    await fetchedPost(store, 5 * MINUTE);
+
+    const found = await store.findRecord('post', '1');
+
+    assert.strictEqual(found.title, 'fetched 2', 'the refetched record was returned');
+  });
+
+  test('stale records are used when a refetch fails within staleIfError', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    store.setCachePolicy('post', { maxAge: MINUTE, staleIfError: 10 * MINUTE });
+    await fetchedPost(store, 5 * MINUTE);
+    this.fail = true;
+
+    const found = await store.findRecord('post', '1');
+    assert.strictEqual(found.title, 'fetched 1', 'the stale record was returned');
+
+    await fetchedPost(store, 20 * MINUTE);
+    await assert.rejects(store.findRecord('post', '1'), /server unavailable/, 'too old records are not used');
+  });
+
+  test('unloading a record forgets when it was fetched', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    store.setCachePolicy('post', { maxAge: MINUTE });
+    const post = await fetchedPost(store, 0);
+    const identifier = recordIdentifierFor(post);
+
+    post.unloadRecord();
+    await settled();
+    assert.strictEqual(store.getRequestStateService().getFetchedAt(identifier), null, 'the fetch time was removed');
+
+    await store.findRecord('post', '1');
+    assert.deepEqual(this.calls, ['findRecord 1', 'findRecord 1'], 'the unloaded record was fetched again');
+  });
+
+  test('the reload option takes precedence over the policy', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    store.setCachePolicy('post', { maxAge: MINUTE });
+    await fetchedPost(store, 0);
+
+    await store.findRecord('post', '1', { reload: true });
+
+    assert.strictEqual(this.calls.length, 2, 'the record was reloaded');
+  });
+
+  test('findAll is driven by the time of the last findAll', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    store.setCachePolicy('post', { maxAge: MINUTE });
+    const requests = store.getRequestStateService();
+
+    await store.findAll('post');
+    await store.findAll('post');
+    assert.deepEqual(this.calls, ['findAll'], 'the second findAll used the fresh records');
+
+    requests.didFetchQuery('findAll:post', Date.now() - 2 * MINUTE);
+    await store.findAll('post');
+    assert.deepEqual(this.calls, ['findAll', 'findAll'], 'expired records were refetched');
+  });
+});
@@ -0,0 +1,128 @@
+import { settled } from '@ember/test-helpers';
+
+import { module, test } from 'qunit';
+
+import { setupTest } from 'ember-qunit';
+
+import Model, { attr } from '@ember-data/model';
+
+class Post extends Model {
+  @attr title;
+  @attr('boolean') isPublished;
+  @attr('number') rank;
+}
+
+function titles(array) {
+  return array.map((record) => record.title);
+}
+
+module('integration/store/filter', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    this.owner.register('model:post', Post);
+    this.store = this.owner.lookup('service:store');
+    this.store.push({
+      data: [
+        { type: 'post', id: '1', attributes: { title: 'C', isPublished: true, rank: 3 } },
+        { type: 'post', id: '2', attributes: { title: 'A', isPublished: false, rank: 1 } },
+        { type: 'post', id: '3', attributes: { title: 'B', isPublished: true, rank: 2 } },
+      ],
+    });
+  });
+
+  test('the array holds the matching records in order', function (assert) {
+    const published = this.store.filter('post', {
+      where: (post) => post.isPublished,
+      sort: (a, b) => a.rank - b.rank,
+    });
+
+    assert.deepEqual(titles(published), ['B', 'C']);
+    assert.true(published.isLoaded);
+  });
+
+  test('the array is updated as records are loaded, changed and unloaded', async function (assert) {
+    const { store } = this;
+    const published = store.filter('post', {
+      where: (post) => post.isPublished,
+      sort: (a, b) => a.rank - b.rank,
+    });
+
+    store.push({ data: { type: 'post', id: '4', attributes: { title: 'D', isPublished: true, rank: 0 } } });
+    await settled();
+    assert.deepEqual(titles(published), ['D', 'B', 'C'], 'a pushed record was inserted in order');
+
+    store.peekRecord('post', '2').isPublished = true;
+    await settled();
+    assert.deepEqual(titles(published), ['D', 'A', 'B', 'C'], 'a record that now matches was added');
+
+    store.peekRecord('post', '4').rank = 10;
+    await settled();
+    assert.deepEqual(titles(published), ['A', 'B', 'C', 'D'], 'a changed record was moved');
+
+    store.peekRecord('post', '1').isPublished = false;
+    await settled();
+    assert.deepEqual(titles(published), ['A', 'B', 'D'], 'a record that no longer matches was removed');
+
+    store.peekRecord('post', '3').unloadRecord();
+    await settled();
+    assert.deepEqual(titles(published), ['A', 'D'], 'an unloaded record was removed');
+  });
+
+  test('only changes to the dependent keys evaluate a record again', async function (assert) {
+    const { store } = this;
+    let calls = 0;
+    const published = store.filter('post', {
+      where(post) {
+        calls++;
+        return post.isPublished;
+      },
+      dependentKeys: ['isPublished'],
+    });
+    calls = 0;
+
+    store.peekRecord('post', '1').title = 'Changed';
+    await settled();
+    assert.strictEqual(calls, 0, 'a change to another attribute was ignored');
+
+    store.peekRecord('post', '1').isPublished = false;
+    await settled();
+    assert.strictEqual(calls, 1, 'only the changed record was evaluated');
+    assert.deepEqual(titles(published), ['B']);
+  });
+
+  test('a dependent key only matches changes to a field of its kind', async function (assert) {
+    const { store } = this;
+    let calls = 0;
+    store.filter('post', {
+      where(post) {
+        calls++;
+        return post.isPublished;
+      },
+      dependentKeys: ['isPublished'],
+    });
+    calls = 0;
+
+    const identifier = store.identifierCache.getOrCreateRecordIdentifier({ type: 'post', id: '1' });
+    store._notificationManager.notify(identifier, 'relationships', 'isPublished');
+    await settled();
+    assert.strictEqual(calls, 0, 'a relationship change was ignored for an attribute key');
+
+    store._notificationManager.notify(identifier, 'attributes', 'isPublished');
+    await settled();
+    assert.strictEqual(calls, 1, 'the attribute change was matched');
+  });
+
+  test('a destroyed array is unregistered and no longer updated', async function (assert) {
+    const { store } = this;
+    const all = store.filter('post');
+    assert.strictEqual(store.recordArrayManager._filteredRecordArrays.post.length, 1, 'the array was registered');
+
+    all.destroy();
+    await settled();
+    store.push({ data: { type: 'post', id: '4', attributes: { title: 'D' } } });
+    await settled();
+
+    assert.strictEqual(store.recordArrayManager._filteredRecordArrays.post.length, 0, 'the array was unregistered');
+  });
+});
@@ -0,0 +1,114 @@
+import { module, test } from 'qunit';
+import { resolve } from 'rsvp';
+
+import { setupTest } from 'ember-qunit';
+
+import Adapter from '@ember-data/adapter';
+import Model, { attr } from '@ember-data/model';
+
+class User extends Model {
+  @attr email;
+  @attr role;
+  @attr tags;
+}
+
+function ids(array) {
+  return array.map((record) => record.id);
+}
+
+module('integration/store/indexes', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    this.owner.register('model:user', User);
+    this.store = this.owner.lookup('service:store');
+    this.store.push({
+      data: [
+        { type: 'user', id: '1', attributes: { email: 'chris@example.com', role: 'admin', tags: ['a', 'b'] } },
+        { type: 'user', id: '2', attributes: { email: 'wes@example.com', role: 'admin', tags: ['b'] } },
+      ],
+    });
+  });
+
+  test('records loaded before and after registering are indexed', function (assert) {
+    const { store } = this;
+    store.registerIndex('user', 'email', { unique: true });
+
+    store.push({ data: { type: 'user', id: '3', attributes: { email: 'rich@example.com', role: 'user' } } });
+
+    assert.strictEqual(store.peekRecordBy('user', 'email', 'chris@example.com'), store.peekRecord('user', '1'));
+    assert.strictEqual(store.peekRecordBy('user', 'email', 'rich@example.com'), store.peekRecord('user', '3'));
+    assert.strictEqual(store.peekRecordBy('user', 'email', 'nobody@example.com'), null);
+  });
+
+  test('indexes follow pushed and local changes and unloads', function (assert) {
+    const { store } = this;
+    store.registerIndex('user', 'email', { unique: true });
+    const user = store.peekRecord('user', '1');
+
+    store.push({ data: { type: 'user', id: '1', attributes: { email: 'chris@example.org' } } });
+    assert.strictEqual(store.peekRecordBy('user', 'email', 'chris@example.com'), null, 'the old value was removed');
+    assert.strictEqual(store.peekRecordBy('user', 'email', 'chris@example.org'), user, 'a pushed value was indexed');
+
+    user.email = 'chris@example.net';
+    assert.strictEqual(store.peekRecordBy('user', 'email', 'chris@example.net'), user, 'a local change was indexed');
+
+    user.rollbackAttributes();
+    assert.strictEqual(store.peekRecordBy('user', 'email', 'chris@example.org'), user, 'a rollback was indexed');
+
+    user.unloadRecord();
+    assert.strictEqual(
+      store.peekRecordBy('user', 'email', 'chris@example.org'),
+      null,
+      'an unloaded record was removed'
+    );
+  });
+
+  test('records whose deletion was saved are not found', async function (assert) {
+    const { store } = this;
+    this.owner.register(
+      'adapter:application',
+      class extends Adapter {
+        deleteRecord() {
+          return resolve();
+        }
+      }
+    );
+    store.registerIndex('user', 'email', { unique: true });
+    store.registerIndex('user', 'role');
+
+    const user = store.peekRecord('user', '1');
+    user.deleteRecord();
+    await user.save();
+
+    assert.strictEqual(store.peekRecordBy('user', 'email', 'chris@example.com'), null);
+    assert.deepEqual(ids(store.peekAllBy('user', 'role', 'admin')), ['2']);
+  });
+
+  test('indexes can hold several records per value', function (assert) {
+    const { store } = this;
+    store.registerIndex('user', 'role');
+    store.registerIndex('user', 'tag', { attribute: 'tags' });
+
+    assert.deepEqual(ids(store.peekAllBy('user', 'role', 'admin')), ['1', '2']);
+    assert.true(Array.isArray(store.peekAllBy('user', 'role', 'admin')), 'the records are returned as an array');
+    assert.deepEqual(ids(store.peekAllBy('user', 'tag', 'a')), ['1'], 'each value of an array is indexed');
+    assert.deepEqual(ids(store.peekAllBy('user', 'tag', 'b')), ['1', '2']);
+
+    store.peekRecord('user', '2').role = 'user';
+    assert.deepEqual(ids(store.peekAllBy('user', 'role', 'admin')), ['1']);
+
+    assert.expectAssertion(() => store.peekRecordBy('user', 'role', 'admin'), /is not unique, use peekAllBy/);
+  });
+
+  test('indexes can be removed', function (assert) {
+    const { store } = this;
+    store.registerIndex('user', 'email', { unique: true });
+    store.registerIndex('user', 'email', null);
+
+    assert.expectAssertion(
+      () => store.peekRecordBy('user', 'email', 'chris@example.com'),
+      /No index named 'email' was registered for user/
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { settled } from '@ember/test-helpers';
+
+import { module, test } from 'qunit';
+
+import { setupTest } from 'ember-qunit';
+
+import Model, { attr } from '@ember-data/model';
+import { recordIdentifierFor } from '@ember-data/store';
+
+class Post extends Model {
+  @attr title;
+  @attr body;
+}
+
+class User extends Model {
+  @attr name;
+}
+
+module('integration/store/notifications', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    const { owner } = this;
+    owner.register('model:post', Post);
+    owner.register('model:user', User);
+    this.store = owner.lookup('service:store');
+    this.store.push({
+      data: [
+        { type: 'post', id: '1', attributes: { title: 'One', body: 'Text' } },
+        { type: 'post', id: '2', attributes: { title: 'Two', body: 'Text' } },
+        { type: 'user', id: '1', attributes: { name: 'Chris' } },
+      ],
+    });
+  });
+
+  test('the notifications of a runloop are delivered in one batch', async function (assert) {
+    const { store } = this;
+    const batches = [];
+    store.notifications.subscribe('all', (notifications) => batches.push(notifications));
+    const post = store.peekRecord('post', '1');
+    const identifier = recordIdentifierFor(post);
+
+    post.title = 'Uno';
+    post.body = 'Texto';
+    post.title = 'One again';
+    await settled();
+
+    assert.strictEqual(batches.length, 1, 'the callback was called once');
+    assert.deepEqual(
+      batches[0].filter(({ type }) => type === 'attributes'),
+      [
+        { identifier, type: 'attributes', key: 'title' },
+        { identifier, type: 'attributes', key: 'body' },
+      ],
+      'each change was delivered once, in order'
+    );
+  });
+
+  test('notifications can be filtered by type or by record', async function (assert) {
+    const { store } = this;
+    const post = store.peekRecord('post', '1');
+    const byType = [];
+    const byRecord = [];
+    const attributes = (notifications) => notifications.filter(({ type }) => type === 'attributes');
+    store.notifications.subscribe('post', (notifications) => byType.push(...attributes(notifications)));
+    store.notifications.subscribe(recordIdentifierFor(post), (notifications) =>
+      byRecord.push(...attributes(notifications))
+    );
+
+    store.push({
+      data: [
+        { type: 'post', id: '2', attributes: { title: 'Dos' } },
+        { type: 'user', id: '1', attributes: { name: 'Wes' } },
+      ],
+    });
+    post.title = 'Uno';
+    await settled();
+
+    assert.deepEqual(
+      byType.map(({ identifier, key }) => [identifier.id, key]),
+      [
+        ['2', 'title'],
+        ['1', 'title'],
+      ],
+      'only posts were delivered'
+    );
+    assert.deepEqual(
+      byRecord.map(({ identifier, key }) => [identifier.id, key]),
+      [['1', 'title']],
+      'only the record was delivered'
+    );
+  });
+
+  test('unsubscribing stops the delivery of notifications', async function (assert) {
+    const { store } = this;
+    let calls = 0;
+    const token = store.notifications.subscribe('all', () => calls++);
+
+    store.notifications.unsubscribe(token);
+    store.peekRecord('post', '1').title = 'Uno';
+    await settled();
+
+    assert.strictEqual(calls, 0);
+  });
+});
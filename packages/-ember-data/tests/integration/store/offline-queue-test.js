@@ -0,0 +1,190 @@
+import { module, test } from 'qunit';
+import { all, Promise, reject, resolve } from 'rsvp';
+
+import { setupTest } from 'ember-qunit';
+
+import Adapter from '@ember-data/adapter';
+import Model, { attr } from '@ember-data/model';
+import JSONAPISerializer from '@ember-data/serializer/json-api';
+import Store, { MemoryStorage, recordIdentifierFor } from '@ember-data/store';
+
+class Post extends Model {
+  @attr title;
+}
+
+module('integration/store/offline-queue', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    const { owner } = this;
+    this.requests = [];
+    this.online = false;
+
+    const requests = this.requests;
+    let nextId = 1;
+    owner.register('model:post', Post);
+    owner.register('serializer:application', class extends JSONAPISerializer {});
+    owner.register(
+      'adapter:application',
+      class extends Adapter {
+        createRecord(store, type, snapshot) {
+          requests.push(`createRecord ${snapshot.attr('title')}`);
+          return resolve({
+            data: { type: 'post', id: String(nextId++), attributes: { title: snapshot.attr('title') } },
+          });
+        }
+        updateRecord(store, type, snapshot) {
+          requests.push(`updateRecord ${snapshot.id} ${snapshot.attr('title')}`);
+          return resolve();
+        }
+        deleteRecord(store, type, snapshot) {
+          requests.push(`deleteRecord ${snapshot.id}`);
+          return resolve();
+        }
+      }
+    );
+  });
+
+  test('saves made while offline are queued and replayed in order', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    const storage = new MemoryStorage();
+    await store.enableOfflineMode({ storage, isOnline: () => this.online });
+
+    const [first, second] = store.push({
+      data: [
+        { type: 'post', id: '1', attributes: { title: 'one' } },
+        { type: 'post', id: '2', attributes: { title: 'two' } },
+      ],
+    });
+    const created = store.createRecord('post', { title: 'three' });
+    first.title = 'one, edited';
+    second.deleteRecord();
+
+    const saves = [first.save(), second.save(), created.save()];
+    await new Promise((r) => setTimeout(r, 10));
+
+    assert.deepEqual(this.requests, [], 'no requests were made while offline');
+    assert.true(first.isSaving, 'the queued save is still pending');
+    assert.strictEqual(storage.getItem('ember-data:offline-queue').length, 3, 'the queue was persisted');
+
+    this.online = true;
+    await store.replayOfflineQueue();
+    await all(saves);
+
+    assert.deepEqual(
+      this.requests,
+      ['updateRecord 1 one, edited', 'deleteRecord 2', 'createRecord three'],
+      'the queued saves were replayed in order'
+    );
+    assert.false(first.isSaving, 'the record is no longer saving');
+    assert.strictEqual(created.id, '1', 'the created record received its id');
+    assert.strictEqual(storage.getItem('ember-data:offline-queue'), null, 'the persisted queue was cleared');
+  });
+
+  test('saves made while online are sent immediately', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    this.online = true;
+    await store.enableOfflineMode({ storage: new MemoryStorage(), isOnline: () => this.online });
+
+    await store.createRecord('post', { title: 'one' }).save();
+
+    assert.deepEqual(this.requests, ['createRecord one'], 'the save was sent');
+  });
+
+  test('saves which fail with a network error are queued', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    const adapter = store.adapterFor('application');
+    let attempts = 0;
+    adapter.updateRecord = () => {
+      attempts++;
+      if (attempts === 1) {
+        this.online = false;
+        return reject(new TypeError('Failed to fetch'));
+      }
+      return resolve();
+    };
+    this.online = true;
+    await store.enableOfflineMode({ storage: new MemoryStorage(), isOnline: () => this.online });
+
+    const post = store.push({ data: { type: 'post', id: '1', attributes: { title: 'one' } } });
+    post.title = 'one, edited';
+    const promise = post.save();
+    await new Promise((r) => setTimeout(r, 10));
+
+    assert.strictEqual(attempts, 1, 'the save was attempted');
+    assert.true(post.isSaving, 'the failed save was queued');
+
+    this.online = true;
+    await store.replayOfflineQueue();
+    await promise;
+
+    assert.strictEqual(attempts, 2, 'the save was replayed');
+    assert.false(post.hasDirtyAttributes, 'the save completed');
+  });
+
+  test('a persisted queue is restored into a new store with the original identifiers', async function (assert) {
+    const storage = new MemoryStorage();
+    const store = this.owner.lookup('service:store');
+    await store.enableOfflineMode({ storage, isOnline: () => false });
+
+    const post = store.createRecord('post', { title: 'draft' });
+    const { lid } = recordIdentifierFor(post);
+    void post.save();
+    await new Promise((r) => setTimeout(r, 10));
+
+    this.owner.register('service:other-store', Store);
+    const otherStore = this.owner.lookup('service:other-store');
+    this.online = true;
+    await otherStore.enableOfflineMode({ storage, isOnline: () => this.online });
+
+    const restored = otherStore.peekAll('post').at(0);
+    assert.deepEqual(this.requests, ['createRecord draft'], 'the persisted save was replayed');
+    assert.strictEqual(recordIdentifierFor(restored).lid, lid, 'the restored record kept its lid');
+    assert.strictEqual(restored.id, '1', 'the restored record was saved');
+    assert.strictEqual(restored.title, 'draft', 'the restored record kept its attributes');
+  });
+
+  test('a restored update is applied as a local change to the state of the server', async function (assert) {
+    const storage = new MemoryStorage();
+    const store = this.owner.lookup('service:store');
+    await store.enableOfflineMode({ storage, isOnline: () => false });
+
+    const post = store.push({ data: { type: 'post', id: '1', attributes: { title: 'one' } } });
+    post.title = 'one, edited';
+    void post.save();
+    await new Promise((r) => setTimeout(r, 10));
+
+    this.owner.register('service:other-store', Store);
+    const otherStore = this.owner.lookup('service:other-store');
+    await otherStore.enableOfflineMode({ storage, isOnline: () => this.online });
+
+    const restored = otherStore.peekRecord('post', '1');
+    assert.strictEqual(restored.title, 'one, edited', 'the queued change was restored');
+    assert.deepEqual(restored.changedAttributes().title, ['one', 'one, edited'], 'the change is local');
+
+    this.online = true;
+    await otherStore.replayOfflineQueue();
+    assert.deepEqual(this.requests, ['updateRecord 1 one, edited'], 'the change was replayed');
+    assert.false(restored.hasDirtyAttributes, 'the change was committed');
+  });
+
+  test('saves are queued when the queue cannot be persisted', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    const storage = new MemoryStorage();
+    storage.setItem = () => {
+      throw new Error('QuotaExceededError');
+    };
+    await store.enableOfflineMode({ storage, isOnline: () => this.online });
+
+    const post = store.push({ data: { type: 'post', id: '1', attributes: { title: 'one' } } });
+    post.title = 'one, edited';
+    const promise = post.save();
+    await new Promise((r) => setTimeout(r, 10));
+    assert.true(post.isSaving, 'the save was queued');
+
+    this.online = true;
+    await store.replayOfflineQueue();
+    await promise;
+    assert.deepEqual(this.requests, ['updateRecord 1 one, edited'], 'the save was replayed');
+  });
+});
@@ -0,0 +1,129 @@
+import { module, test } from 'qunit';
+
+import { setupTest } from 'ember-qunit';
+
+import Model, { attr, belongsTo, hasMany } from '@ember-data/model';
+
+class Post extends Model {
+  @attr title;
+  @attr('number') rank;
+  @attr('date') publishedAt;
+  @belongsTo('user', { async: false, inverse: null }) author;
+  @hasMany('tag', { async: false, inverse: null }) tags;
+}
+
+class User extends Model {
+  @attr name;
+}
+
+class Tag extends Model {
+  @attr name;
+}
+
+function ids(array) {
+  return array.map((record) => record.id);
+}
+
+module('integration/store/peek-query', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    const { owner } = this;
+    owner.register('model:post', Post);
+    owner.register('model:user', User);
+    owner.register('model:tag', Tag);
+    this.store = owner.lookup('service:store');
+    this.store.push({
+      data: [
+        {
+          type: 'post',
+          id: '1',
+          attributes: { title: 'Learning Ember', rank: 3, publishedAt: new Date('2022-03-01') },
+          relationships: {
+            author: { data: { type: 'user', id: '1' } },
+            tags: { data: [{ type: 'tag', id: '1' }] },
+          },
+        },
+        {
+          type: 'post',
+          id: '2',
+          attributes: { title: 'Ember Data', rank: 1, publishedAt: new Date('2021-06-01') },
+          relationships: {
+            author: { data: { type: 'user', id: '2' } },
+            tags: {
+              data: [
+                { type: 'tag', id: '1' },
+                { type: 'tag', id: '2' },
+              ],
+            },
+          },
+        },
+        {
+          type: 'post',
+          id: '3',
+          attributes: { title: 'Glimmer', rank: 2, publishedAt: null },
+          relationships: { author: { data: null }, tags: { data: [] } },
+        },
+      ],
+      included: [
+        { type: 'user', id: '1', attributes: { name: 'Chris' } },
+        { type: 'user', id: '2', attributes: { name: 'Wes' } },
+        { type: 'tag', id: '1', attributes: { name: 'ember' } },
+        { type: 'tag', id: '2', attributes: { name: 'data' } },
+      ],
+    });
+  });
+
+  test('records can be matched by equality, ranges, lists and text', function (assert) {
+    const { store } = this;
+
+    assert.deepEqual(ids(store.peekQuery('post', { where: { rank: 2 } })), ['3'], 'equality');
+    assert.deepEqual(ids(store.peekQuery('post', { where: { rank: { gte: 2, lt: 4 } } })), ['1', '3'], 'ranges');
+    assert.deepEqual(ids(store.peekQuery('post', { where: { id: { in: ['1', '3'] } } })), ['1', '3'], 'lists');
+    assert.deepEqual(ids(store.peekQuery('post', { where: { title: { contains: 'ember' } } })), ['1', '2'], 'text');
+    assert.deepEqual(
+      ids(store.peekQuery('post', { where: { publishedAt: { gt: '2022-01-01' } } })),
+      ['1'],
+      'dates are compared according to the attribute type'
+    );
+    assert.deepEqual(ids(store.peekQuery('post', { where: { publishedAt: null } })), ['3'], 'null values');
+  });
+
+  test('records can be matched through relationships', function (assert) {
+    const { store } = this;
+
+    assert.deepEqual(ids(store.peekQuery('post', { where: { 'author.name': 'Wes' } })), ['2'], 'belongsTo');
+    assert.deepEqual(ids(store.peekQuery('post', { where: { 'tags.name': 'ember' } })), ['1', '2'], 'hasMany');
+    assert.deepEqual(ids(store.peekQuery('post', { where: { 'author.id': null } })), ['3'], 'empty relationships');
+  });
+
+  test('results can be sorted and sliced', function (assert) {
+    const { store } = this;
+
+    assert.deepEqual(ids(store.peekQuery('post', { sort: 'rank' })), ['2', '3', '1']);
+    assert.deepEqual(ids(store.peekQuery('post', { sort: '-publishedAt' })), ['1', '2', '3'], 'nulls sort last');
+    assert.deepEqual(ids(store.peekQuery('post', { sort: ['author.name', 'title'] })), ['1', '2', '3']);
+    assert.deepEqual(ids(store.peekQuery('post', { sort: 'rank', offset: 1, limit: 1 })), ['3']);
+  });
+
+  test('results are plain arrays of records', function (assert) {
+    const { store } = this;
+    const posts = store.peekQuery('post', { where: { rank: 2 } });
+
+    assert.true(Array.isArray(posts), 'the result is an array');
+    assert.strictEqual(posts[0], store.peekRecord('post', '3'), 'it holds the records');
+  });
+
+  test('unknown fields and operators assert', function (assert) {
+    const { store } = this;
+
+    assert.expectAssertion(
+      () => store.peekQuery('post', { where: { subtitle: 'x' } }),
+      /post has no attribute named 'subtitle'/
+    );
+    assert.expectAssertion(
+      () => store.peekQuery('post', { where: { rank: { between: [1, 2] } } }),
+      /Unknown operator 'between'/
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import { settled } from '@ember/test-helpers';
+
+import { module, test } from 'qunit';
+
+import { setupTest } from 'ember-qunit';
+
+import Model, { attr, belongsTo, hasMany } from '@ember-data/model';
+import Store, { MemoryStorage, recordIdentifierFor } from '@ember-data/store';
+
+class User extends Model {
+  @attr name;
+  @hasMany('post', { async: false, inverse: 'author' }) posts;
+}
+
+class Post extends Model {
+  @attr title;
+  @belongsTo('user', { async: false, inverse: 'posts' }) author;
+}
+
+class Comment extends Model {
+  @attr body;
+}
+
+module('integration/store/persistent-cache', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    const { owner } = this;
+    owner.register('model:user', User);
+    owner.register('model:post', Post);
+    owner.register('model:comment', Comment);
+    owner.register('service:other-store', Store);
+    this.storage = new MemoryStorage();
+  });
+
+  function pushData(store) {
+    return store.push({
+      data: {
+        type: 'user',
+        id: '1',
+        attributes: { name: 'Chris' },
+        relationships: { posts: { data: [{ type: 'post', id: '1' }], meta: { total: 1 } } },
+      },
+      included: [
+        {
+          type: 'post',
+          id: '1',
+          attributes: { title: 'Persistence' },
+          relationships: { author: { data: { type: 'user', id: '1' } } },
+        },
+        { type: 'comment', id: '1', attributes: { body: 'Not persisted' } },
+      ],
+    });
+  }
+
+  test('records persisted by one store are hydrated into another', async function (assert) {
+    const { storage } = this;
+    const store = this.owner.lookup('service:store');
+    await store.enablePersistentCache({ storage, types: ['user', 'post'] });
+    const user = pushData(store);
+    const { lid } = recordIdentifierFor(user);
+    user.name = 'Local change';
+    await store.persistCache();
+
+    const otherStore = this.owner.lookup('service:other-store');
+    await otherStore.enablePersistentCache({ storage, types: ['user', 'post'] });
+
+    const hydrated = otherStore.peekRecord('user', '1');
+    assert.ok(hydrated, 'the user was hydrated');
+    assert.strictEqual(recordIdentifierFor(hydrated).lid, lid, 'the lid was preserved');
+    assert.strictEqual(hydrated.name, 'Chris', 'the remote state was persisted, not the local change');
+    assert.strictEqual(hydrated.posts.length, 1, 'the hasMany was hydrated');
+    assert.strictEqual(hydrated.posts.at(0).title, 'Persistence', 'the related record was hydrated');
+    assert.strictEqual(hydrated.posts.at(0).author, hydrated, 'the belongsTo was hydrated');
+    assert.deepEqual(hydrated.hasMany('posts').meta(), { total: 1 }, 'relationship meta was hydrated');
+    assert.strictEqual(otherStore.peekRecord('comment', '1'), null, 'types not opted in are not persisted');
+  });
+
+  test('new records are not persisted', async function (assert) {
+    const { storage } = this;
+    const store = this.owner.lookup('service:store');
+    await store.enablePersistentCache({ storage, types: ['user'] });
+    store.createRecord('user', { name: 'New' });
+    await store.persistCache();
+
+    const otherStore = this.owner.lookup('service:other-store');
+    await otherStore.enablePersistentCache({ storage, types: ['user'] });
+
+    assert.strictEqual(otherStore.peekAll('user').length, 0, 'nothing was hydrated');
+  });
+
+  test('persisted data is discarded when the version changes', async function (assert) {
+    const { storage } = this;
+    const store = this.owner.lookup('service:store');
+    await store.enablePersistentCache({ storage, types: ['user'], version: '1' });
+    pushData(store);
+    await store.persistCache();
+
+    const otherStore = this.owner.lookup('service:other-store');
+    await otherStore.enablePersistentCache({ storage, types: ['user'], version: '2' });
+
+    assert.strictEqual(otherStore.peekRecord('user', '1'), null, 'the user was not hydrated');
+    assert.strictEqual(storage.getItem('ember-data:cache:user'), null, 'the stale data was removed');
+  });
+
+  test('records older than their ttl are evicted', async function (assert) {
+    const { storage } = this;
+    const store = this.owner.lookup('service:store');
+    await store.enablePersistentCache({ storage, types: { user: { ttl: 1000 }, post: true } });
+    pushData(store);
+    await store.persistCache();
+
+    ['ember-data:cache:user', 'ember-data:cache:post'].forEach((key) => {
+      const entry = storage.getItem(key);
+      entry.records.forEach((record) => (record.cachedAt -= 5000));
+      storage.setItem(key, entry);
+    });
+
+    const otherStore = this.owner.lookup('service:other-store');
+    await otherStore.enablePersistentCache({ storage, types: { user: { ttl: 1000 }, post: true } });
+
+    assert.strictEqual(otherStore.peekRecord('user', '1'), null, 'the expired user was evicted');
+    assert.ok(otherStore.peekRecord('post', '1'), 'the post has no ttl and was hydrated');
+    assert.strictEqual(
+      recordIdentifierFor(otherStore.peekRecord('post', '1')).lid,
+      recordIdentifierFor(store.peekRecord('post', '1')).lid,
+      'the lid was preserved'
+    );
+  });
+
+  test('hiding the page does not throw when the cache cannot be persisted', async function (assert) {
+    const { storage } = this;
+    const store = this.owner.lookup('service:store');
+    await store.enablePersistentCache({ storage, types: ['user', 'post'] });
+    pushData(store);
+    storage.setItem = () => {
+      throw new Error('QuotaExceededError');
+    };
+
+    window.dispatchEvent(new Event('pagehide'));
+    await settled();
+
+    assert.strictEqual(storage.getItem('ember-data:cache:user'), null, 'nothing was persisted');
+  });
+});
@@ -0,0 +1,126 @@
+import { settled } from '@ember/test-helpers';
+
+import { module, test } from 'qunit';
+import { reject, resolve } from 'rsvp';
+
+import { setupTest } from 'ember-qunit';
+
+import Adapter from '@ember-data/adapter';
+import Model, { attr } from '@ember-data/model';
+import JSONAPISerializer from '@ember-data/serializer/json-api';
+
+class Post extends Model {
+  @attr title;
+}
+
+module('integration/store/query-cache', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    const { owner } = this;
+    const calls = (this.calls = []);
+    owner.register('model:post', Post);
+    owner.register('serializer:application', class extends JSONAPISerializer {});
+    owner.register(
+      'adapter:application',
+      class extends Adapter {
+        query(store, type, query) {
+          calls.push(query);
+          const id = String(calls.length);
+          return resolve({
+            data: [{ type: 'post', id, attributes: { title: `post ${id}` } }],
+            meta: { requests: calls.length },
+            links: { next: '/posts?page=2' },
+          });
+        }
+        createRecord(store, type, snapshot) {
+          return resolve({ data: { type: 'post', id: 'new', attributes: { title: snapshot.attr('title') } } });
+        }
+      }
+    );
+  });
+
+  test('cached queries resolve with the populated record array and revalidate in the background', async function (assert) {
+    const store = this.owner.lookup('service:store');
+
+    const first = await store.query('post', { page: 1 }, { cache: true });
+    const second = await store.query('post', { page: 1 }, { cache: true });
+
+    assert.strictEqual(second, first, 'the cached record array was returned');
+    assert.deepEqual(second.meta, { requests: 1 }, 'the record array was returned before revalidating');
+    assert.deepEqual(second.links, { next: '/posts?page=2' }, 'links were preserved');
+
+    await settled();
+    assert.strictEqual(this.calls.length, 2, 'the query was revalidated');
+    assert.deepEqual(first.meta, { requests: 2 }, 'the cached record array was updated');
+    assert.deepEqual(
+      first.map((post) => post.id),
+      ['2'],
+      'the revalidated records replaced the cached ones'
+    );
+  });
+
+  test('queries made without cache: true are not cached', async function (assert) {
+    const store = this.owner.lookup('service:store');
+
+    const first = await store.query('post', { page: 1 });
+    const second = await store.query('post', { page: 1 }, { cache: true });
+
+    assert.notStrictEqual(second, first, 'a new record array was created');
+    assert.strictEqual(this.calls.length, 2, 'each query made a request');
+  });
+
+  test('fresh results under a cache policy are not revalidated', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    store.setCachePolicy('post', { maxAge: 60 * 1000 });
+
+    await store.query('post', { page: 1 }, { cache: true });
+    await store.query('post', { page: 1 }, { cache: true });
+    await settled();
+
+    assert.strictEqual(this.calls.length, 1, 'no revalidation was made');
+  });
+
+  test('invalidateQuery removes matching queries from the cache', async function (assert) {
+    const store = this.owner.lookup('service:store');
+
+    const pageOne = await store.query('post', { page: 1 }, { cache: true });
+    const pageTwo = await store.query('post', { page: 2 }, { cache: true });
+
+    assert.strictEqual(
+      store.invalidateQuery('post', (query) => query.page === 1),
+      1,
+      'one query was invalidated'
+    );
+
+    assert.notStrictEqual(await store.query('post', { page: 1 }, { cache: true }), pageOne, 'page one was refetched');
+    assert.strictEqual(await store.query('post', { page: 2 }, { cache: true }), pageTwo, 'page two is still cached');
+    await settled();
+  });
+
+  test('creating a record invalidates the cached queries of its type', async function (assert) {
+    const store = this.owner.lookup('service:store');
+
+    const cached = await store.query('post', { page: 1 }, { cache: true });
+    await store.createRecord('post', { title: 'new' }).save();
+
+    assert.notStrictEqual(await store.query('post', { page: 1 }, { cache: true }), cached, 'the query was refetched');
+  });
+
+  test('a failed revalidation does not leave the cached record array updating', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    store.setCachePolicy('post', { maxAge: 0 });
+
+    const cached = await store.query('post', { page: 1 }, { cache: true });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    store.adapterFor('application').query = () => reject(new Error('Revalidation failed'));
+    await assert.rejects(
+      store.query('post', { page: 1 }, { cache: true }),
+      /Revalidation failed/,
+      'the expired query rejects'
+    );
+
+    assert.false(cached.isUpdating, 'the cached record array is no longer updating');
+  });
+});
@@ -0,0 +1,131 @@
+import { module, test } from 'qunit';
+import { resolve } from 'rsvp';
+
+import { setupTest } from 'ember-qunit';
+
+import Adapter from '@ember-data/adapter';
+import Model, { attr } from '@ember-data/model';
+import JSONAPISerializer from '@ember-data/serializer/json-api';
+
+class Post extends Model {
+  @attr title;
+}
+
+const TOTAL = 5;
+
+function postsFrom(offset, limit) {
+  const data = [];
+  for (let i = offset; i < Math.min(offset + limit, TOTAL); i++) {
+    data.push({ type: 'post', id: String(i + 1), attributes: { title: `Post ${i + 1}` } });
+  }
+  return data;
+}
+
+function ids(array) {
+  return array.map((record) => record.id);
+}
+
+module('integration/store/query-pagination', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    const { owner } = this;
+    const queries = (this.queries = []);
+    owner.register('model:post', Post);
+    owner.register('serializer:application', class extends JSONAPISerializer {});
+    owner.register(
+      'adapter:application',
+      class extends Adapter {
+        query(store, type, query) {
+          queries.push(query);
+          const { page } = query;
+          if (page.offset !== undefined) {
+            return resolve({ data: postsFrom(Number(page.offset), Number(page.limit)), meta: { total: TOTAL } });
+          }
+          if (page.cursor !== undefined) {
+            const offset = page.cursor ? Number(page.cursor) : 0;
+            const next = offset + 2 < TOTAL ? String(offset + 2) : null;
+            return resolve({ data: postsFrom(offset, 2), meta: { nextCursor: next } });
+          }
+          const number = Number(page.number);
+          const link = (n) => `/posts?page%5Bnumber%5D=${n}&page%5Bsize%5D=2`;
+          return resolve({
+            data: postsFrom((number - 1) * 2, 2),
+            links: {
+              prev: number > 1 ? link(number - 1) : null,
+              next: number * 2 < TOTAL ? link(number + 1) : null,
+            },
+          });
+        }
+      }
+    );
+    this.store = owner.lookup('service:store');
+  });
+
+  test('the JSON:API pagination links are followed by default', async function (assert) {
+    const posts = await this.store.query('post', { page: { number: 1, size: 2 } });
+
+    assert.false(posts.hasPrev, 'there is no previous page');
+    assert.true(posts.hasNext, 'there is a next page');
+
+    await posts.loadNext();
+    assert.deepEqual(ids(posts), ['3', '4'], 'the next page replaced the records');
+    assert.deepEqual(this.queries[1], { page: { number: '2', size: '2' } }, 'the query was read from the link');
+
+    await posts.loadNext();
+    assert.deepEqual(ids(posts), ['5'], 'the last page was loaded');
+    assert.false(posts.hasNext, 'there is no next page after the last');
+
+    await posts.loadPrev();
+    assert.deepEqual(ids(posts), ['3', '4'], 'the previous page was loaded');
+
+    await posts.loadPage(1);
+    assert.deepEqual(ids(posts), ['1', '2'], 'a page was loaded by number');
+    assert.deepEqual(this.queries[4], { page: { number: 1, size: '2' } }, 'the page number was set');
+  });
+
+  test('the offset strategy appends pages in infinite mode', async function (assert) {
+    const posts = await this.store.query(
+      'post',
+      { page: { offset: 0, limit: 2 } },
+      { pagination: { strategy: 'offset', infinite: true } }
+    );
+
+    await posts.loadNext();
+    assert.deepEqual(ids(posts), ['1', '2', '3', '4'], 'the next page was appended');
+    assert.true(posts.hasNext);
+
+    await posts.loadNext();
+    assert.deepEqual(ids(posts), ['1', '2', '3', '4', '5'], 'the last page was appended');
+    assert.false(posts.hasNext, 'the total was reached');
+    assert.false(posts.hasPrev, 'the first page is loaded');
+
+    await posts.loadPage(2);
+    assert.deepEqual(ids(posts), ['3', '4'], 'loading a page by number replaces the records');
+    assert.true(posts.hasPrev);
+  });
+
+  test('a custom strategy can follow cursors', async function (assert) {
+    const cursor = {
+      next(page) {
+        const next = page.meta && page.meta.nextCursor;
+        return next ? Object.assign({}, page.query, { page: { cursor: next } }) : null;
+      },
+      prev() {
+        return null;
+      },
+    };
+    const posts = await this.store.query(
+      'post',
+      { page: { cursor: '' } },
+      { pagination: { strategy: cursor, infinite: true } }
+    );
+
+    while (posts.hasNext) {
+      await posts.loadNext();
+    }
+
+    assert.deepEqual(ids(posts), ['1', '2', '3', '4', '5'], 'every page was loaded');
+    assert.strictEqual(this.queries.length, 3, 'one request was made per page');
+  });
+});
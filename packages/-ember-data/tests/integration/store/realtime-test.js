@@ -0,0 +1,145 @@
+import { settled } from '@ember/test-helpers';
+
+import { module, test } from 'qunit';
+import { defer, resolve } from 'rsvp';
+
+import { setupTest } from 'ember-qunit';
+
+import Adapter from '@ember-data/adapter';
+import Model, { attr, belongsTo } from '@ember-data/model';
+import JSONAPISerializer from '@ember-data/serializer/json-api';
+import RESTSerializer from '@ember-data/serializer/rest';
+import { LocalEventSource } from '@ember-data/store';
+
+class Post extends Model {
+  @attr title;
+  @belongsTo('user', { async: false, inverse: null }) author;
+}
+
+class User extends Model {
+  @attr name;
+}
+
+module('integration/store/realtime', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    const { owner } = this;
+    const context = this;
+    this.save = null;
+    owner.register('model:post', Post);
+    owner.register('model:user', User);
+    owner.register('serializer:application', class extends JSONAPISerializer {});
+    owner.register(
+      'adapter:application',
+      class extends Adapter {
+        updateRecord() {
+          return context.save ? context.save.promise : resolve();
+        }
+      }
+    );
+
+    this.store = owner.lookup('service:store');
+    this.source = new LocalEventSource();
+    this.disconnect = this.store.connectRealtime(this.source);
+    this.store.push({ data: { type: 'post', id: '1', attributes: { title: 'Original' } } });
+  });
+
+  test('JSON:API documents are normalized and pushed', function (assert) {
+    const { store, source } = this;
+
+    source.emit({
+      data: [
+        {
+          type: 'posts',
+          id: '1',
+          attributes: { title: 'Updated' },
+          relationships: { author: { data: { type: 'users', id: '1' } } },
+        },
+        { type: 'posts', id: '2', attributes: { title: 'New' } },
+      ],
+      included: [{ type: 'users', id: '1', attributes: { name: 'Chris' } }],
+    });
+
+    assert.strictEqual(store.peekRecord('post', '1').title, 'Updated', 'the existing record was updated');
+    assert.strictEqual(store.peekRecord('post', '2').title, 'New', 'the new record was pushed');
+    assert.strictEqual(store.peekRecord('post', '1').author.name, 'Chris', 'included resources were pushed');
+  });
+
+  test('updates are normalized by the serializer of their model', function (assert) {
+    const { owner, store, source } = this;
+    owner.register('serializer:user', class extends RESTSerializer {});
+
+    source.emit({ event: 'update', modelName: 'user', document: { user: { id: '2', name: 'Wes' } } });
+
+    assert.strictEqual(store.peekRecord('user', '2').name, 'Wes');
+  });
+
+  test('removals unload the record', function (assert) {
+    const { store, source } = this;
+
+    source.emit({ event: 'removed', type: 'posts', id: '1' });
+    assert.strictEqual(store.peekRecord('post', '1'), null, 'the record was unloaded');
+
+    source.emit({ event: 'delete', type: 'post', id: '3' });
+    assert.strictEqual(store.peekRecord('post', '3'), null, 'removals of unknown records are ignored');
+  });
+
+  test('the type of a removal is read by the serializer for that type', function (assert) {
+    const { owner, store, source } = this;
+    owner.register(
+      'serializer:blog-post',
+      class extends JSONAPISerializer {
+        modelNameFromPayloadKey() {
+          return 'post';
+        }
+      }
+    );
+
+    source.emit({ event: 'removed', type: 'blog-post', id: '1' });
+    assert.strictEqual(store.peekRecord('post', '1'), null, 'the record was unloaded');
+  });
+
+  test('messages for a record with a save in flight are dropped when the save succeeds', async function (assert) {
+    const { store, source } = this;
+    this.save = defer();
+    const post = store.peekRecord('post', '1');
+    post.title = 'Mine';
+    const saved = post.save();
+
+    source.emit({ data: { type: 'posts', id: '1', attributes: { title: 'Theirs' } } });
+    assert.strictEqual(post.title, 'Mine', 'the update was held');
+
+    this.save.resolve({ data: { type: 'post', id: '1', attributes: { title: 'Saved' } } });
+    await saved;
+    await settled();
+
+    assert.strictEqual(post.title, 'Saved', 'the response to the save won');
+  });
+
+  test('messages for a record with a save in flight are applied when the save fails', async function (assert) {
+    const { store, source } = this;
+    this.save = defer();
+    const post = store.peekRecord('post', '1');
+    post.title = 'Mine';
+    const saved = post.save();
+
+    source.emit({ event: 'removed', type: 'posts', id: '1' });
+    assert.false(post.isDestroying, 'the removal was held');
+
+    this.save.reject(new Error('nope'));
+    await saved.catch(() => {});
+    await settled();
+
+    assert.strictEqual(store.peekRecord('post', '1'), null, 'the removal was applied');
+  });
+
+  test('a disconnected source no longer updates the store', function (assert) {
+    const { store, source } = this;
+    this.disconnect();
+
+    source.emit({ data: { type: 'posts', id: '1', attributes: { title: 'Updated' } } });
+
+    assert.strictEqual(store.peekRecord('post', '1').title, 'Original');
+  });
+});
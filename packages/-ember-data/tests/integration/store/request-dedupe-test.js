@@ -0,0 +1,128 @@
+import { module, test } from 'qunit';
+import { all, resolve } from 'rsvp';
+
+import { setupTest } from 'ember-qunit';
+
+import Adapter from '@ember-data/adapter';
+import Model, { attr, hasMany } from '@ember-data/model';
+import JSONAPISerializer from '@ember-data/serializer/json-api';
+
+class Post extends Model {
+  @attr title;
+  @hasMany('comment', { async: true, inverse: null }) comments;
+}
+
+class Comment extends Model {
+  @attr body;
+}
+
+module('integration/store/request-dedupe', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    const { owner } = this;
+    const calls = (this.calls = []);
+    owner.register('model:post', Post);
+    owner.register('model:comment', Comment);
+    owner.register('serializer:application', class extends JSONAPISerializer {});
+    owner.register(
+      'adapter:application',
+      class extends Adapter {
+        query(store, type, query) {
+          calls.push(['query', query]);
+          return resolve({ data: [{ type: 'post', id: '1', attributes: { title: 'one' } }] });
+        }
+        queryRecord(store, type, query) {
+          calls.push(['queryRecord', query]);
+          return resolve({ data: { type: 'post', id: '1', attributes: { title: 'one' } } });
+        }
+        findAll() {
+          calls.push(['findAll']);
+          return resolve({ data: [{ type: 'post', id: '1', attributes: { title: 'one' } }] });
+        }
+        findHasMany(store, snapshot, link) {
+          calls.push(['findHasMany', link]);
+          return resolve({ data: [{ type: 'comment', id: '1', attributes: { body: 'first' } }] });
+        }
+      }
+    );
+  });
+
+  test('identical in-flight queries share a single request', async function (assert) {
+    const store = this.owner.lookup('service:store');
+
+    const [first, second] = await all([
+      store.query('post', { page: 1, filter: { title: 'one', tag: 'a' } }),
+      store.query('post', { filter: { tag: 'a', title: 'one' }, page: 1 }),
+    ]);
+
+    assert.strictEqual(this.calls.length, 1, 'one request was made');
+    assert.strictEqual(first, second, 'both calls resolved with the same record array');
+    assert.strictEqual(first.length, 1, 'the record array was populated');
+  });
+
+  test('different queries are not shared', async function (assert) {
+    const store = this.owner.lookup('service:store');
+
+    await all([store.query('post', { page: 1 }), store.query('post', { page: 2 })]);
+
+    assert.strictEqual(this.calls.length, 2, 'two requests were made');
+  });
+
+  test('requests are only shared while in flight', async function (assert) {
+    const store = this.owner.lookup('service:store');
+
+    await store.query('post', { page: 1 });
+    await store.query('post', { page: 1 });
+
+    assert.strictEqual(this.calls.length, 2, 'a new request was made once the first settled');
+  });
+
+  test('dedupe: false and requests with a signal opt out', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    const controller = new AbortController();
+
+    await all([
+      store.query('post', { page: 1 }),
+      store.query('post', { page: 1 }, { dedupe: false }),
+      store.query('post', { page: 1 }, { signal: controller.signal }),
+    ]);
+
+    assert.strictEqual(this.calls.length, 3, 'each call made its own request');
+  });
+
+  test('identical in-flight queryRecord and findAll calls share a single request', async function (assert) {
+    const store = this.owner.lookup('service:store');
+
+    const [first, second] = await all([
+      store.queryRecord('post', { slug: 'one' }),
+      store.queryRecord('post', { slug: 'one' }),
+      store.findAll('post', { reload: true }),
+      store.findAll('post', { reload: true }),
+    ]);
+
+    assert.strictEqual(first, second, 'both queryRecord calls resolved with the same record');
+    assert.deepEqual(
+      this.calls.map((call) => call[0]),
+      ['queryRecord', 'findAll'],
+      'one request was made for each'
+    );
+  });
+
+  test('identical in-flight link fetches for a relationship share a single request', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    const post = store.push({
+      data: {
+        type: 'post',
+        id: '1',
+        attributes: { title: 'one' },
+        relationships: { comments: { links: { related: '/posts/1/comments' } } },
+      },
+    });
+
+    const reference = post.hasMany('comments');
+    await all([reference.reload(), reference.reload()]);
+
+    assert.deepEqual(this.calls, [['findHasMany', '/posts/1/comments']], 'one request was made');
+  });
+});
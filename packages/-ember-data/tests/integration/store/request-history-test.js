@@ -0,0 +1,156 @@
+import Pretender from 'pretender';
+import { module, test } from 'qunit';
+import { reject, resolve } from 'rsvp';
+
+import { setupTest } from 'ember-qunit';
+
+import Adapter from '@ember-data/adapter';
+import RESTAdapter from '@ember-data/adapter/rest';
+import Model, { attr } from '@ember-data/model';
+import JSONAPISerializer from '@ember-data/serializer/json-api';
+import RESTSerializer from '@ember-data/serializer/rest';
+import { recordIdentifierFor, setResponseInfo } from '@ember-data/store';
+
+class Post extends Model {
+  @attr title;
+}
+
+module('integration/store/request-history', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    this.owner.register('model:post', Post);
+  });
+
+  module('with a custom adapter', function (hooks) {
+    hooks.beforeEach(function () {
+      const { owner } = this;
+      owner.register('serializer:application', class extends JSONAPISerializer {});
+      owner.register(
+        'adapter:application',
+        class extends Adapter {
+          findRecord(store, type, id) {
+            const payload = { data: { type: 'post', id, attributes: { title: 'found' } } };
+            setResponseInfo(payload, { status: 200, headers: { etag: '"v1"' } });
+            return resolve(payload);
+          }
+          updateRecord(store, type, snapshot) {
+            const error = new Error('conflict');
+            setResponseInfo(error, { status: 409, headers: {} });
+            return snapshot.attr('title') === 'conflicting' ? reject(error) : resolve();
+          }
+          query() {
+            return resolve({ data: [] });
+          }
+        }
+      );
+    });
+
+    test('the requests made for a record are kept in order', async function (assert) {
+      const store = this.owner.lookup('service:store');
+      const requests = store.getRequestStateService();
+      const post = store.push({ data: { type: 'post', id: '1', attributes: { title: 'one' } } });
+
+      await post.save();
+      await post.reload();
+      post.title = 'conflicting';
+      await assert.rejects(post.save(), /conflict/);
+
+      const history = requests.getRequestHistoryForRecord(recordIdentifierFor(post));
+      assert.deepEqual(
+        history.map((entry) => [entry.requestState.request.data[0].op, entry.requestState.state]),
+        [
+          ['saveRecord', 'fulfilled'],
+          ['findRecord', 'fulfilled'],
+          ['saveRecord', 'rejected'],
+        ],
+        'each request was recorded'
+      );
+      assert.strictEqual(
+        requests.getLastRequestForRecord(recordIdentifierFor(post)),
+        history[2].requestState,
+        'the last request is the most recent entry'
+      );
+      history.forEach((entry) => {
+        assert.strictEqual(entry.duration, entry.endedAt - entry.startedAt, 'the duration was recorded');
+      });
+      assert.deepEqual(history[1].response, { status: 200, headers: { etag: '"v1"' } }, 'response info was recorded');
+      assert.deepEqual(history[2].response, { status: 409, headers: {} }, 'error response info was recorded');
+      assert.strictEqual(history[0].response, null, 'requests without response info have none');
+    });
+
+    test('the history is bounded per record and overall', async function (assert) {
+      const store = this.owner.lookup('service:store');
+      const requests = store.getRequestStateService();
+      const post = store.push({ data: { type: 'post', id: '1', attributes: { title: 'one' } } });
+      requests.configureHistory({ perRecord: 2, global: 3 });
+
+      await post.reload();
+      await post.save();
+      await post.reload();
+      await store.query('post', { page: 1 });
+
+      assert.deepEqual(
+        requests
+          .getRequestHistoryForRecord(recordIdentifierFor(post))
+          .map((entry) => entry.requestState.request.data[0].op),
+        ['saveRecord', 'findRecord'],
+        'the oldest request for the record was dropped'
+      );
+      assert.deepEqual(
+        requests.getRequestHistory().map((entry) => entry.requestState.request.data[0].op),
+        ['saveRecord', 'findRecord', 'query'],
+        'the global history includes queries'
+      );
+
+      requests.configureHistory({ global: 1 });
+      assert.strictEqual(requests.getRequestHistory().length, 1, 'lowering a limit trims the history');
+    });
+
+    test('unloading a record clears its history', async function (assert) {
+      const store = this.owner.lookup('service:store');
+      const requests = store.getRequestStateService();
+      const post = await store.findRecord('post', '1');
+      const identifier = recordIdentifierFor(post);
+
+      store.unloadRecord(post);
+
+      assert.deepEqual(requests.getRequestHistoryForRecord(identifier), [], 'the record history was cleared');
+      assert.strictEqual(requests.getRequestHistory().length, 1, 'the global history is kept');
+    });
+  });
+
+  module('with the RESTAdapter', function (hooks) {
+    let server;
+
+    hooks.beforeEach(function () {
+      server = new Pretender();
+      this.owner.register('adapter:application', class extends RESTAdapter {});
+      this.owner.register('serializer:application', class extends RESTSerializer {});
+    });
+
+    hooks.afterEach(function () {
+      server.shutdown();
+    });
+
+    test('the status and headers of responses are recorded', async function (assert) {
+      server.get('/posts/1', () => [
+        200,
+        { 'content-type': 'application/json', etag: '"v1"' },
+        JSON.stringify({ post: { id: '1', title: 'one' } }),
+      ]);
+      server.get('/posts', () => [503, { 'content-type': 'application/json' }, JSON.stringify({ errors: [] })]);
+      const store = this.owner.lookup('service:store');
+      const requests = store.getRequestStateService();
+
+      await store.findRecord('post', '1');
+      await assert.rejects(store.query('post', { page: 1 }));
+
+      const [found, queried] = requests.getRequestHistory();
+      assert.strictEqual(found.response.status, 200, 'the status was recorded');
+      assert.strictEqual(found.response.headers.etag, '"v1"', 'the headers were recorded');
+      assert.strictEqual(queried.requestState.state, 'rejected', 'the query failed');
+      assert.strictEqual(queried.response.status, 503, 'the status of failed requests was recorded');
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { module, test } from 'qunit';
+import { resolve } from 'rsvp';
+
+import { setupTest } from 'ember-qunit';
+
+import Adapter from '@ember-data/adapter';
+import Model, { attr, hasMany } from '@ember-data/model';
+import JSONAPISerializer from '@ember-data/serializer/json-api';
+
+class Person extends Model {
+  @attr name;
+  @hasMany('pet', { async: true, inverse: null }) pets;
+}
+
+class Pet extends Model {
+  @attr name;
+}
+
+module('integration/store/request-manager', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    this.owner.register('model:person', Person);
+    this.owner.register('model:pet', Pet);
+    this.owner.register('serializer:application', class extends JSONAPISerializer {});
+  });
+
+  test('handlers wrap adapter calls in the order they were registered', async function (assert) {
+    const calls = [];
+    this.owner.register(
+      'adapter:application',
+      class extends Adapter {
+        findRecord(store, type, id) {
+          calls.push(`adapter:${id}`);
+          return resolve({ data: { type: 'person', id, attributes: { name: 'Chris' } } });
+        }
+      }
+    );
+    const store = this.owner.lookup('service:store');
+
+    store.requestManager.use([
+      {
+        handle(context, next) {
+          calls.push(`first:${context.op}:${context.modelName}`);
+          return next(context).then((payload) => {
+            calls.push('first:done');
+            return payload;
+          });
+        },
+      },
+      {
+        handle(context, next) {
+          calls.push(`second:${context.op}:${context.id}`);
+          // without a context, next passes on the one this handler was given
+          return next();
+        },
+      },
+    ]);
+
+    const record = await store.findRecord('person', '1');
+
+    assert.strictEqual(record.name, 'Chris', 'the record was loaded');
+    assert.deepEqual(calls, ['first:findRecord:person', 'second:findRecord:1', 'adapter:1', 'first:done']);
+  });
+
+  test('a handler may short-circuit the adapter', async function (assert) {
+    this.owner.register(
+      'adapter:application',
+      class extends Adapter {
+        query() {
+          assert.ok(false, 'adapter should not be called');
+        }
+      }
+    );
+    const store = this.owner.lookup('service:store');
+
+    store.requestManager.use([
+      {
+        handle(context) {
+          assert.strictEqual(context.op, 'query', 'op is query');
+          assert.deepEqual(context.query, { name: 'Chris' }, 'query is available');
+          return { data: [{ type: 'person', id: '1', attributes: { name: 'Chris' } }] };
+        },
+      },
+    ]);
+
+    const people = await store.query('person', { name: 'Chris' });
+
+    assert.strictEqual(people.length, 1, 'the mocked response was used');
+    assert.strictEqual(people.firstObject.name, 'Chris');
+  });
+
+  test('findAll, findHasMany and saves are routed through the handlers', async function (assert) {
+    this.owner.register(
+      'adapter:application',
+      class extends Adapter {
+        findAll() {
+          return resolve({
+            data: [
+              {
+                type: 'person',
+                id: '1',
+                attributes: { name: 'Chris' },
+                relationships: { pets: { links: { related: '/people/1/pets' } } },
+              },
+            ],
+          });
+        }
+        findHasMany() {
+          return resolve({ data: [{ type: 'pet', id: '1', attributes: { name: 'Shen' } }] });
+        }
+        updateRecord(store, type, snapshot) {
+          return resolve({ data: { type: 'person', id: snapshot.id } });
+        }
+      }
+    );
+    const store = this.owner.lookup('service:store');
+    const ops = [];
+
+    store.requestManager.use([
+      {
+        handle(context, next) {
+          ops.push(context.op);
+          if (context.op === 'findHasMany') {
+            assert.strictEqual(context.link, '/people/1/pets', 'the link is available');
+            assert.strictEqual(context.snapshot.id, '1', 'the parent snapshot is available');
+          }
+          if (context.op === 'updateRecord') {
+            assert.strictEqual(context.snapshot.attr('name'), 'James', 'the snapshot is available');
+          }
+          return next(context);
+        },
+      },
+    ]);
+
+    const people = await store.findAll('person');
+    const person = people.firstObject;
+    const pets = await person.pets;
+    assert.strictEqual(pets.length, 1, 'the relationship was loaded');
+
+    person.name = 'James';
+    await person.save();
+
+    assert.deepEqual(ops, ['findAll', 'findHasMany', 'updateRecord']);
+  });
+
+  test('errors thrown by a handler reject the request', async function (assert) {
+    this.owner.register('adapter:application', class extends Adapter {});
+    const store = this.owner.lookup('service:store');
+
+    store.requestManager.use([
+      {
+        handle() {
+          throw new Error('Unauthorized');
+        },
+      },
+    ]);
+
+    await assert.rejects(store.findRecord('person', '1'), /Unauthorized/);
+  });
+
+  test('adapter methods that return undefined reject the request', async function (assert) {
+    this.owner.register(
+      'adapter:application',
+      class extends Adapter {
+        findRecord() {}
+      }
+    );
+    const store = this.owner.lookup('service:store');
+
+    await assert.rejects(store.findRecord('person', '1'), /adapter.findRecord returned undefined/);
+  });
+});
@@ -0,0 +1,126 @@
+import { module, test } from 'qunit';
+import { resolve } from 'rsvp';
+
+import { setupTest } from 'ember-qunit';
+
+import Adapter from '@ember-data/adapter';
+import Model, { attr, hasMany } from '@ember-data/model';
+import JSONAPISerializer from '@ember-data/serializer/json-api';
+import { recordIdentifierFor } from '@ember-data/store';
+
+class Post extends Model {
+  @attr title;
+  @hasMany('comment', { async: true, inverse: null }) comments;
+}
+
+class Comment extends Model {
+  @attr body;
+}
+
+module('integration/store/request-state', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    const { owner } = this;
+    owner.register('model:post', Post);
+    owner.register('model:comment', Comment);
+    owner.register('serializer:application', class extends JSONAPISerializer {});
+    owner.register(
+      'adapter:application',
+      class extends Adapter {
+        query() {
+          return resolve({
+            data: [{ type: 'post', id: '1', attributes: { title: 'one' } }],
+            included: [{ type: 'comment', id: '1', attributes: { body: 'first' } }],
+          });
+        }
+        findAll() {
+          return resolve({ data: [{ type: 'post', id: '2', attributes: { title: 'two' } }] });
+        }
+        findHasMany() {
+          return resolve({ data: [{ type: 'comment', id: '2', attributes: { body: 'second' } }] });
+        }
+      }
+    );
+  });
+
+  test('queries are tracked from start to finish', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    const requests = store.getRequestStateService();
+    const states = [];
+    requests.subscribe((request) => states.push(request));
+
+    const promise = store.query('post', { page: 1 });
+    const pending = requests.getPendingRequests();
+
+    assert.strictEqual(pending.length, 1, 'the query is pending');
+    assert.strictEqual(pending[0].type, 'query', 'the request is a query');
+    assert.deepEqual(pending[0].request.data[0].query, { page: 1 }, 'the request records the query');
+
+    await promise;
+
+    assert.strictEqual(requests.getPendingRequests().length, 0, 'the query is no longer pending');
+    assert.deepEqual(
+      states.map((state) => state.state),
+      ['pending', 'fulfilled'],
+      'subscribers were notified of each state'
+    );
+    assert.deepEqual(
+      requests.getIdentifiersForRequest(states[1]),
+      [
+        store.identifierCache.getOrCreateRecordIdentifier({ type: 'post', id: '1' }),
+        store.identifierCache.getOrCreateRecordIdentifier({ type: 'comment', id: '1' }),
+      ],
+      'the loaded and included records were touched'
+    );
+  });
+
+  test('findAll and link fetches are tracked', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    const requests = store.getRequestStateService();
+    const fulfilled = [];
+    const unsubscribe = requests.subscribe((request) => {
+      if (request.state === 'fulfilled') {
+        fulfilled.push(request);
+      }
+    });
+
+    await store.findAll('post');
+    const post = store.push({
+      data: {
+        type: 'post',
+        id: '1',
+        attributes: { title: 'one' },
+        relationships: { comments: { links: { related: '/posts/1/comments' } } },
+      },
+    });
+    await post.comments;
+
+    const [findAll, findHasMany] = fulfilled;
+    assert.strictEqual(findAll.request.data[0].op, 'findAll', 'the findAll was tracked');
+    assert.strictEqual(findHasMany.request.data[0].op, 'findHasMany', 'the link fetch was tracked');
+    assert.strictEqual(findHasMany.request.data[0].link, '/posts/1/comments', 'the link is recorded');
+    assert.deepEqual(
+      requests.getIdentifiersForRequest(findHasMany),
+      [recordIdentifierFor(post), store.identifierCache.getOrCreateRecordIdentifier({ type: 'comment', id: '2' })],
+      'the owner and the loaded records were touched'
+    );
+
+    unsubscribe();
+    await store.findAll('post', { reload: true });
+    assert.strictEqual(fulfilled.length, 2, 'unsubscribed callbacks are not notified');
+  });
+
+  test('collection requests do not notify record subscribers', async function (assert) {
+    const store = this.owner.lookup('service:store');
+    const requests = store.getRequestStateService();
+    const post = store.push({ data: { type: 'post', id: '1', attributes: { title: 'one' } } });
+    let notified = 0;
+    requests.subscribeForRecord(recordIdentifierFor(post), () => notified++);
+
+    await store.query('post', { page: 1 });
+
+    assert.strictEqual(notified, 0, 'the record subscriber was not notified');
+    assert.false(post.isReloading, 'the record is not considered to be loading');
+  });
+});
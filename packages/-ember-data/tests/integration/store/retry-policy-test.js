@@ -0,0 +1,219 @@
+import { run } from '@ember/runloop';
+
+import { module, test } from 'qunit';
+import { reject, resolve } from 'rsvp';
+
+import { setupTest } from 'ember-qunit';
+
+import Adapter from '@ember-data/adapter';
+import { InvalidError, NotFoundError, ServerError } from '@ember-data/adapter/error';
+import Model, { attr } from '@ember-data/model';
+import JSONAPISerializer from '@ember-data/serializer/json-api';
+
+class Person extends Model {
+  @attr name;
+}
+
+const retryPolicy = { maxAttempts: 3, baseDelay: 0, jitter: 0 };
+
+module('integration/store/retry-policy', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    this.owner.register('model:person', Person);
+    this.owner.register('serializer:application', class extends JSONAPISerializer {});
+  });
+
+  test('findRecord is retried after a ServerError', async function (assert) {
+    let attempts = 0;
+    this.owner.register(
+      'adapter:application',
+      class extends Adapter {
+        retryPolicy = retryPolicy;
+        findRecord(store, type, id) {
+          attempts++;
+          if (attempts < 3) {
+            return reject(new ServerError());
+          }
+          return resolve({ data: { type: 'person', id, attributes: { name: 'Chris' } } });
+        }
+      }
+    );
+    const store = this.owner.lookup('service:store');
+
+    const record = await store.findRecord('person', '1');
+
+    assert.strictEqual(attempts, 3, 'the adapter was called three times');
+    assert.strictEqual(record.name, 'Chris', 'the record loaded');
+  });
+
+  test('requests are rejected once maxAttempts is reached', async function (assert) {
+    let attempts = 0;
+    this.owner.register(
+      'adapter:application',
+      class extends Adapter {
+        retryPolicy = retryPolicy;
+        findRecord() {
+          attempts++;
+          return reject(new ServerError());
+        }
+      }
+    );
+    const store = this.owner.lookup('service:store');
+
+    await assert.rejects(store.findRecord('person', '1'), (e) => e instanceof ServerError);
+    assert.strictEqual(attempts, 3, 'the adapter was called three times');
+  });
+
+  test('non-retryable errors and statuses reject immediately', async function (assert) {
+    let attempts = 0;
+    this.owner.register(
+      'adapter:application',
+      class extends Adapter {
+        retryPolicy = Object.assign({ retryableStatuses: [503] }, retryPolicy);
+        findRecord() {
+          attempts++;
+          return reject(new NotFoundError([{ status: '404' }]));
+        }
+      }
+    );
+    const store = this.owner.lookup('service:store');
+
+    await assert.rejects(store.findRecord('person', '1'), (e) => e instanceof NotFoundError);
+    assert.strictEqual(attempts, 1, 'the adapter was called once');
+  });
+
+  test('updateRecord is retried but an InvalidError is not', async function (assert) {
+    let attempts = 0;
+    this.owner.register(
+      'adapter:application',
+      class extends Adapter {
+        retryPolicy = retryPolicy;
+        updateRecord(store, type, snapshot) {
+          attempts++;
+          if (attempts === 1) {
+            return reject(new ServerError());
+          }
+          if (attempts === 2) {
+            return resolve({ data: { type: 'person', id: snapshot.id } });
+          }
+          return reject(new InvalidError([{ detail: 'is invalid', source: { pointer: '/data/attributes/name' } }]));
+        }
+      }
+    );
+    const store = this.owner.lookup('service:store');
+    const person = store.push({ data: { type: 'person', id: '1', attributes: { name: 'Chris' } } });
+
+    person.name = 'James';
+    await person.save();
+    assert.strictEqual(attempts, 2, 'the update was retried once');
+
+    person.name = '';
+    await assert.rejects(person.save());
+    assert.strictEqual(attempts, 3, 'the invalid update was not retried');
+  });
+
+  test('createRecord is only retried when the record has a client assigned id', async function (assert) {
+    let attempts = 0;
+    this.owner.register(
+      'adapter:application',
+      class extends Adapter {
+        retryPolicy = Object.assign(
+          { retryableOperations: ['findRecord', 'createRecord', 'updateRecord', 'deleteRecord'] },
+          retryPolicy
+        );
+        createRecord(store, type, snapshot) {
+          attempts++;
+          if (attempts % 2 === 1) {
+            return reject(new ServerError());
+          }
+          return resolve({ data: { type: 'person', id: snapshot.id || '1' } });
+        }
+      }
+    );
+    const store = this.owner.lookup('service:store');
+
+    await assert.rejects(store.createRecord('person', { name: 'Chris' }).save());
+    assert.strictEqual(attempts, 1, 'the create without an id was not retried');
+
+    attempts = 0;
+    await store.createRecord('person', { id: '2', name: 'James' }).save();
+    assert.strictEqual(attempts, 2, 'the create with a client id was retried');
+  });
+
+  test('query is retried when it is listed in retryableOperations', async function (assert) {
+    let attempts = 0;
+    const context = { retryableOperations: ['findRecord'] };
+    this.owner.register(
+      'adapter:application',
+      class extends Adapter {
+        get retryPolicy() {
+          return Object.assign({}, retryPolicy, { retryableOperations: context.retryableOperations });
+        }
+        query() {
+          attempts++;
+          if (attempts % 2 === 1) {
+            return reject(new ServerError());
+          }
+          return resolve({ data: [] });
+        }
+      }
+    );
+    const store = this.owner.lookup('service:store');
+
+    await assert.rejects(store.query('person', {}));
+    assert.strictEqual(attempts, 1, 'the query was not retried by default');
+
+    attempts = 0;
+    context.retryableOperations = ['query'];
+    await store.query('person', {});
+    assert.strictEqual(attempts, 2, 'the query was retried');
+  });
+
+  test('aborting a request while waiting to retry rejects it without another attempt', async function (assert) {
+    let attempts = 0;
+    const controller = new AbortController();
+    this.owner.register(
+      'adapter:application',
+      class extends Adapter {
+        retryPolicy = Object.assign({}, retryPolicy, { baseDelay: 10000 });
+        findRecord() {
+          attempts++;
+          // abort once the first attempt has failed and the retry is pending
+          setTimeout(() => controller.abort(), 10);
+          return reject(new ServerError());
+        }
+      }
+    );
+    const store = this.owner.lookup('service:store');
+
+    await assert.rejects(
+      store.findRecord('person', '1', { signal: controller.signal }),
+      (e) => e instanceof ServerError
+    );
+    assert.strictEqual(attempts, 1, 'the request was not attempted again');
+  });
+
+  test('destroying the store while waiting to retry rejects the request without another attempt', async function (assert) {
+    let attempts = 0;
+    this.owner.register(
+      'adapter:application',
+      class extends Adapter {
+        retryPolicy = Object.assign({}, retryPolicy, { baseDelay: 10000, retryableOperations: ['query'] });
+        query() {
+          attempts++;
+          return reject(new ServerError());
+        }
+      }
+    );
+    const store = this.owner.lookup('service:store');
+
+    const promise = store.query('person', {});
+    await new Promise((r) => setTimeout(r, 10));
+    run(() => store.destroy());
+
+    await assert.rejects(promise, (e) => e instanceof ServerError);
+    assert.strictEqual(attempts, 1, 'the request was not attempted again');
+    assert.strictEqual(store._fetchManager._retryWaits.size, 0, 'the wait was stopped');
+  });
+});
@@ -0,0 +1,107 @@
+import Pretender from 'pretender';
+import { module, test } from 'qunit';
+
+import { setupTest } from 'ember-qunit';
+
+import JSONAPIAdapter from '@ember-data/adapter/json-api';
+import Model, { attr } from '@ember-data/model';
+import JSONAPISerializer from '@ember-data/serializer/json-api';
+import { recordIdentifierFor } from '@ember-data/store';
+
+const JSONAPI = 'application/vnd.api+json';
+
+function header(request, name) {
+  const key = Object.keys(request.requestHeaders).find((key) => key.toLowerCase() === name);
+  return key ? request.requestHeaders[key] : undefined;
+}
+
+function post(attributes) {
+  return JSON.stringify({ data: { type: 'posts', id: '1', attributes } });
+}
+
+class Post extends Model {
+  @attr title;
+  @attr revision;
+}
+
+module('integration/store/save-conflicts', function (hooks) {
+  setupTest(hooks);
+  let server;
+
+  hooks.beforeEach(function () {
+    const { owner } = this;
+    owner.register('model:post', Post);
+    owner.register('adapter:application', class extends JSONAPIAdapter {});
+    owner.register('serializer:application', class extends JSONAPISerializer {});
+    this.store = owner.lookup('service:store');
+    server = new Pretender();
+  });
+
+  hooks.afterEach(function () {
+    server.shutdown();
+  });
+
+  test('saves send the ETag the record was last received with as If-Match', async function (assert) {
+    const { store } = this;
+    const ifMatch = [];
+    server.get('/posts/1', () => [200, { 'content-type': JSONAPI, etag: '"v1"' }, post({ title: 'One' })]);
+    server.patch('/posts/1', (request) => {
+      ifMatch.push(header(request, 'if-match'));
+      return [200, { 'content-type': JSONAPI, etag: `"v${ifMatch.length + 1}"` }, post({ title: 'Two' })];
+    });
+
+    const record = await store.findRecord('post', '1');
+    assert.strictEqual(
+      store.getRequestStateService().getVersion(recordIdentifierFor(record)),
+      '"v1"',
+      'the version was remembered'
+    );
+
+    record.title = 'Two';
+    await record.save();
+    record.title = 'Three';
+    await record.save();
+
+    assert.deepEqual(ifMatch, ['"v1"', '"v2"'], 'each save sent the version it was based on');
+  });
+
+  test('a version attribute can be used in place of ETags', async function (assert) {
+    const { store } = this;
+    let ifMatch;
+    store.setVersionAttribute('post', 'revision');
+    server.patch('/posts/1', (request) => {
+      ifMatch = header(request, 'if-match');
+      return [204, {}, ''];
+    });
+    store.push({ data: { type: 'post', id: '1', attributes: { title: 'One', revision: 7 } } });
+
+    const record = store.peekRecord('post', '1');
+    record.title = 'Two';
+    await record.save();
+
+    assert.strictEqual(ifMatch, '7', 'the version attribute was sent');
+  });
+
+  test('a 412 rejects the save with the local changes and the server copy', async function (assert) {
+    const { store } = this;
+    server.get('/posts/1', () => [200, { 'content-type': JSONAPI, etag: '"v1"' }, post({ title: 'One' })]);
+    server.patch('/posts/1', () => [412, { 'content-type': JSONAPI }, post({ title: 'Theirs' })]);
+
+    const record = await store.findRecord('post', '1');
+    record.title = 'Mine';
+
+    try {
+      await record.save();
+      assert.ok(false, 'the save should have been rejected');
+    } catch (error) {
+      assert.strictEqual(error.code, 'ConflictError', 'the save was rejected with a ConflictError');
+      const { identifier, version, local, server } = error.conflict;
+      assert.strictEqual(identifier, recordIdentifierFor(record), 'the record is identified');
+      assert.strictEqual(version, '"v1"', 'the version the save was based on is included');
+      assert.deepEqual(local.attributes, { title: ['One', 'Mine'] }, 'the local changes are included');
+      assert.strictEqual(server.attributes.title, 'Theirs', 'the server copy is included');
+    }
+
+    assert.strictEqual(record.title, 'Mine', 'the local changes are kept');
+  });
+});
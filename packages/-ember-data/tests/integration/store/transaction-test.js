@@ -0,0 +1,223 @@
+import { module, test } from 'qunit';
+import { defer, reject, resolve } from 'rsvp';
+
+import { setupTest } from 'ember-qunit';
+
+import Adapter from '@ember-data/adapter';
+import { ConflictError, InvalidError } from '@ember-data/adapter/error';
+import Model, { attr } from '@ember-data/model';
+import JSONAPISerializer from '@ember-data/serializer/json-api';
+import { recordIdentifierFor, setResponseInfo, Transaction } from '@ember-data/store';
+
+class Order extends Model {
+  @attr total;
+}
+
+class Address extends Model {
+  @attr street;
+}
+
+module('integration/store/transaction', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    const { owner } = this;
+    const commits = (this.commits = []);
+    this.response = null;
+    const context = this;
+
+    owner.register('model:order', Order);
+    owner.register('model:address', Address);
+    owner.register('serializer:application', class extends JSONAPISerializer {});
+    owner.register(
+      'adapter:application',
+      class extends Adapter {
+        commitTransaction(store, snapshots) {
+          commits.push(snapshots.map((snapshot) => [snapshot.operation, snapshot.modelName, snapshot.id]));
+          if (context.response) {
+            return context.response();
+          }
+          return resolve(
+            snapshots.map((snapshot, i) =>
+              snapshot.operation === 'createRecord'
+                ? { data: { type: snapshot.modelName, id: `new-${i}`, attributes: snapshot.attributes() } }
+                : null
+            )
+          );
+        }
+      }
+    );
+
+    const store = (this.store = owner.lookup('service:store'));
+    store.push({
+      data: [
+        { type: 'address', id: '1', attributes: { street: 'Main St' } },
+        { type: 'address', id: '2', attributes: { street: 'Side St' } },
+      ],
+    });
+  });
+
+  test('saves are committed to the adapter together', async function (assert) {
+    const { store } = this;
+    const address = store.peekRecord('address', '1');
+    const removed = store.peekRecord('address', '2');
+    let order;
+
+    const result = await store.transaction(async (tx) => {
+      assert.true(tx instanceof Transaction, 'the callback receives the transaction');
+      order = store.createRecord('order', { total: 10 });
+      address.street = 'Infinite Loop';
+      removed.deleteRecord();
+
+      tx.save(order);
+      tx.save(address);
+      tx.save(removed);
+      await resolve();
+      assert.strictEqual(this.commits.length, 0, 'nothing is sent before the callback completes');
+      return order;
+    });
+
+    assert.strictEqual(result, order, 'the transaction resolves with the result of the callback');
+    assert.deepEqual(
+      this.commits,
+      [
+        [
+          ['createRecord', 'order', null],
+          ['updateRecord', 'address', '1'],
+          ['deleteRecord', 'address', '2'],
+        ],
+      ],
+      'a single request was made for all records'
+    );
+    assert.strictEqual(order.id, 'new-0', 'the response was applied to the created record');
+    assert.false(order.isNew, 'the order was created');
+    assert.false(address.hasDirtyAttributes, 'the update was committed');
+    assert.true(removed.isDeleted && !removed.hasDirtyAttributes, 'the deletion was committed');
+  });
+
+  test('records are saving while the transaction is in flight', async function (assert) {
+    const { store } = this;
+    const deferred = defer();
+    this.response = () => deferred.promise;
+    const address = store.peekRecord('address', '1');
+    address.street = 'Infinite Loop';
+
+    const committed = store.transaction((tx) => tx.save(address));
+    await resolve();
+
+    assert.true(address.isSaving, 'the record is saving');
+    deferred.resolve([null]);
+    await committed;
+    assert.false(address.isSaving, 'the record is no longer saving');
+  });
+
+  test('a failed commit rejects the save of every record', async function (assert) {
+    const { store } = this;
+    this.response = () => reject(new Error('rejected'));
+    const first = store.peekRecord('address', '1');
+    const second = store.peekRecord('address', '2');
+    first.street = 'changed';
+    second.street = 'also changed';
+
+    await assert.rejects(
+      store.transaction((tx) => {
+        tx.save(first);
+        tx.save(second);
+      }),
+      /rejected/
+    );
+
+    assert.strictEqual(first.street, 'changed', 'the first change is kept locally');
+    assert.true(first.hasDirtyAttributes, 'the first record is dirty');
+    assert.true(second.hasDirtyAttributes, 'the second record is dirty');
+    assert.false(first.isSaving || second.isSaving, 'no record is saving');
+  });
+
+  test('errors not attributed to a record are applied as when a single save fails', async function (assert) {
+    const { store } = this;
+    this.response = () =>
+      reject(new InvalidError([{ detail: 'is closed', source: { pointer: '/data/attributes/street' } }]));
+    const first = store.peekRecord('address', '1');
+    const second = store.peekRecord('address', '2');
+    first.street = 'changed';
+    second.street = 'also changed';
+
+    await assert.rejects(
+      store.transaction((tx) => {
+        tx.save(first);
+        tx.save(second);
+      })
+    );
+
+    [first, second].forEach((record) => {
+      assert.deepEqual(
+        record.errors.errorsFor('street').map((error) => error.message),
+        ['is closed'],
+        `address ${record.id} received the errors`
+      );
+    });
+  });
+
+  test('the versions the adapter returns are recorded for each record', async function (assert) {
+    const { store } = this;
+    const first = store.peekRecord('address', '1');
+    const second = store.peekRecord('address', '2');
+    this.response = () => {
+      const payload = { data: { type: 'address', id: '1', attributes: { street: 'changed' } } };
+      setResponseInfo(payload, { status: 200, headers: { ETag: '"v2"' } });
+      return resolve([payload, null]);
+    };
+    first.street = 'changed';
+    second.street = 'also changed';
+
+    await store.transaction((tx) => {
+      tx.save(first);
+      tx.save(second);
+    });
+
+    const requestCache = store.getRequestStateService();
+    assert.strictEqual(requestCache.getVersion(recordIdentifierFor(first)), '"v2"', 'the version was recorded');
+    assert.strictEqual(requestCache.getVersion(recordIdentifierFor(second)), null, 'no version was returned');
+  });
+
+  test('a conflict is described for each record', async function (assert) {
+    const { store } = this;
+    this.response = () => reject(new ConflictError());
+    const first = store.peekRecord('address', '1');
+    const second = store.peekRecord('address', '2');
+    first.street = 'changed';
+    second.street = 'also changed';
+
+    try {
+      await store.transaction((tx) => {
+        tx.save(first);
+        tx.save(second);
+      });
+      assert.ok(false, 'the transaction should be rejected');
+    } catch (error) {
+      assert.deepEqual(
+        error.conflicts.map((conflict) => conflict.identifier),
+        [recordIdentifierFor(first), recordIdentifierFor(second)],
+        'there is a conflict for each record'
+      );
+      assert.deepEqual(error.conflicts[0].local.attributes, { street: ['Main St', 'changed'] });
+    }
+  });
+
+  test('nothing is saved when the callback throws', async function (assert) {
+    const { store } = this;
+    const address = store.peekRecord('address', '1');
+    address.street = 'changed';
+
+    await assert.rejects(
+      store.transaction((tx) => {
+        tx.save(address);
+        throw new Error('aborted');
+      }),
+      /aborted/
+    );
+
+    assert.strictEqual(this.commits.length, 0, 'the adapter was not called');
+    assert.true(address.hasDirtyAttributes, 'the change is kept locally');
+  });
+});
@@ -0,0 +1,109 @@
+import { module, test } from 'qunit';
+
+import { setupTest } from 'ember-qunit';
+
+import Model, { attr, belongsTo, hasMany } from '@ember-data/model';
+import JSONAPISerializer from '@ember-data/serializer/json-api';
+import { recordIdentifierFor } from '@ember-data/store';
+
+class Post extends Model {
+  @attr title;
+  @belongsTo('user', { async: false, inverse: 'posts' }) author;
+  @hasMany('tag', { async: false, inverse: null }) tags;
+}
+
+class User extends Model {
+  @hasMany('post', { async: false, inverse: 'author' }) posts;
+}
+
+class Tag extends Model {}
+
+module('unit/model/changedRelationships - model.changedRelationships()', function (hooks) {
+  setupTest(hooks);
+
+  hooks.beforeEach(function () {
+    const { owner } = this;
+    owner.register('model:post', Post);
+    owner.register('model:user', User);
+    owner.register('model:tag', Tag);
+    owner.register('serializer:application', class extends JSONAPISerializer {});
+
+    this.store = owner.lookup('service:store');
+    this.store.push({
+      data: {
+        type: 'post',
+        id: '1',
+        attributes: { title: 'Rails is omakase' },
+        relationships: {
+          author: { data: { type: 'user', id: '1' } },
+          tags: { data: [{ type: 'tag', id: '1' }] },
+        },
+      },
+      included: [
+        { type: 'user', id: '1' },
+        { type: 'user', id: '2' },
+        { type: 'tag', id: '1' },
+        { type: 'tag', id: '2' },
+      ],
+    });
+  });
+
+  test('changed relationships report their remote and local state', function (assert) {
+    const { store } = this;
+    const post = store.peekRecord('post', '1');
+    const [tomster, zoey] = ['1', '2'].map((id) => store.peekRecord('user', id));
+    const [first, second] = ['1', '2'].map((id) => store.peekRecord('tag', id));
+
+    assert.deepEqual(post.changedRelationships(), {}, 'nothing has changed');
+
+    post.author = zoey;
+    post.tags.pushObject(second);
+
+    const changed = post.changedRelationships();
+    assert.deepEqual(Object.keys(changed).sort(), ['author', 'tags'], 'both relationships changed');
+    assert.deepEqual(changed.author, [recordIdentifierFor(tomster), recordIdentifierFor(zoey)], 'belongsTo change');
+    assert.deepEqual(
+      changed.tags,
+      [[recordIdentifierFor(first)], [recordIdentifierFor(first), recordIdentifierFor(second)]],
+      'hasMany change'
+    );
+    assert.false(post.hasDirtyAttributes, 'relationship changes do not dirty the attributes');
+
+    post.author = tomster;
+    assert.deepEqual(Object.keys(post.changedRelationships()), ['tags'], 'restoring the remote state is not a change');
+  });
+
+  test('changed relationships are available on snapshots', function (assert) {
+    const { store } = this;
+    const post = store.peekRecord('post', '1');
+    post.author = store.peekRecord('user', '2');
+
+    assert.deepEqual(Object.keys(post._createSnapshot().changedRelationships()), ['author']);
+  });
+
+  test('rollbackRelationships restores the remote state of relationships', function (assert) {
+    const { store } = this;
+    const post = store.peekRecord('post', '1');
+    const [tomster, zoey] = ['1', '2'].map((id) => store.peekRecord('user', id));
+    post.title = 'Ember is omakase';
+    post.author = zoey;
+    post.tags.pushObject(store.peekRecord('tag', '2'));
+
+    post.rollbackRelationships();
+
+    assert.strictEqual(post.author, tomster, 'the belongsTo was restored');
+    assert.deepEqual(
+      post.tags.map((tag) => tag.id),
+      ['1'],
+      'the hasMany was restored'
+    );
+    assert.deepEqual(
+      tomster.posts.map((p) => p.id),
+      ['1'],
+      'the inverse was restored'
+    );
+    assert.strictEqual(zoey.posts.length, 0, 'the inverse of the discarded change was cleared');
+    assert.deepEqual(post.changedRelationships(), {}, 'nothing has changed');
+    assert.strictEqual(post.title, 'Ember is omakase', 'attributes are left as is');
+  });
+});
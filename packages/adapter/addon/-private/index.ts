@@ -8,3 +8,5 @@ export { serializeQueryParams } from './utils/serialize-query-params';
 export { default as fetch } from './utils/fetch';
 export { default as BuildURLMixin } from './build-url-mixin';
 export { default as serializeIntoHash } from './utils/serialize-into-hash';
+export { default as withSignal } from './utils/with-signal';
+export { default as withVersion } from './utils/with-version';
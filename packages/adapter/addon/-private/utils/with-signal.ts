@@ -0,0 +1,14 @@
+type SignalSource = { signal?: AbortSignal } | null | undefined;
+
+/**
+ * Adds the `AbortSignal` (if any) a request was issued with to the options
+ * hash passed to `adapter.ajax`, leaving the options untouched otherwise.
+ *
+ * @internal
+ */
+export default function withSignal<T extends object>(source: SignalSource, options?: T): T | undefined {
+  if (source && source.signal) {
+    return Object.assign({}, options, { signal: source.signal });
+  }
+  return options;
+}
@@ -0,0 +1,17 @@
+type VersionSource = { version?: string | null } | null | undefined;
+
+/**
+ * Adds an `If-Match` header carrying the version of the record a save was
+ * based on to the options hash passed to `adapter.ajax`, so that the server
+ * can refuse the save if the record changed in the meantime.
+ *
+ * @internal
+ */
+export default function withVersion<T extends object>(source: VersionSource, options?: T): T | undefined {
+  if (source && source.version) {
+    const existing = options && (options as { headers?: object }).headers;
+    const headers = Object.assign({}, existing, { 'If-Match': source.version });
+    return Object.assign({}, options, { headers });
+  }
+  return options;
+}
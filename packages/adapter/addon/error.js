@@ -321,11 +321,28 @@ export const NotFoundError = extend(AdapterError, 'The adapter could not find th
 NotFoundError.prototype.code = 'NotFoundError';
 
 /**
-  A `ConflictError` equates to a HTTP `409 Conflict` response status.
-  It is used by an adapter to indicate that the request could not be processed
-  because of a conflict in the request. An example scenario would be when
-  creating a record with a client-generated ID but that ID is already known
-  to the external API.
+  A `ConflictError` equates to a HTTP `409 Conflict` or `412 Precondition Failed`
+  response status. It is used by an adapter to indicate that the request could
+  not be processed because of a conflict in the request. An example scenario would
+  be when creating a record with a client-generated ID but that ID is already known
+  to the external API, or when updating a record which was changed by someone else
+  since it was loaded (see `If-Match`).
+
+  The `RESTAdapter` keeps the body of the response as the error's `payload`. When
+  the error rejects a save, the store adds a `conflict` describing both the local
+  changes and, if the payload contained it, the server's copy of the record:
+
+  ```js
+  try {
+    await post.save();
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      let { local, server } = error.conflict;
+      // local.attributes, local.relationships: the changes which were being saved
+      // server: the server's copy of the record as a JSON:API resource, or null
+    }
+  }
+  ```
 
   @class ConflictError
   @public
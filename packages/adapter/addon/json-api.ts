@@ -10,11 +10,19 @@ import type Store from '@ember-data/store';
 import type ShimModelClass from '@ember-data/store/-private/legacy-model-support/shim-model-class';
 import type Snapshot from '@ember-data/store/-private/network/snapshot';
 import type { AdapterPayload } from '@ember-data/types/q/minimum-adapter-interface';
+import type { JsonApiValidationError } from '@ember-data/types/q/record-data-json-api';
 
-import { serializeIntoHash } from './-private';
+import { serializeIntoHash, withSignal, withVersion } from './-private';
 import type { FetchRequestInit, JQueryRequestInit } from './rest';
 import RESTAdapter from './rest';
 
+const ATOMIC_MEDIA_TYPE = 'application/vnd.api+json;ext="https://jsonapi.org/ext/atomic"';
+const OPERATION_POINTER = /^\/atomic:operations\/(\d+)(\/.*)?$/;
+
+type AtomicSerializer = ReturnType<Store['serializerFor']> & {
+  serializeAtomicOperation?(snapshot: Snapshot, lids: Set<string>): unknown;
+};
+
 /**
   The `JSONAPIAdapter` is the default adapter used by Ember Data. It
   is responsible for transforming the store's requests into HTTP
@@ -261,8 +269,121 @@ class JSONAPIAdapter extends RESTAdapter {
 
     let url = this.buildURL(type, id, snapshot, 'updateRecord');
 
-    return this.ajax(url, 'PATCH', { data: data });
+    return this.ajax(url, 'PATCH', withVersion(snapshot, withSignal(snapshot, { data: data })));
   }
+
+  /**
+    Sends the saves of a `store.transaction` to the server in a single request
+    using the [Atomic Operations](https://jsonapi.org/ext/atomic/) extension.
+
+    Each snapshot is serialized into an operation by its serializer's
+    `serializeAtomicOperation`, and the `atomic:results` of the response are
+    matched to the snapshots in order. New records receive the id of their
+    result.
+
+    If the server rejects the operations, the errors whose `source.pointer`
+    refers to an operation (e.g. `/atomic:operations/1/data/attributes/title`)
+    are applied to the record of that operation.
+
+    As a single request cannot carry an `If-Match` header per record, the
+    version each save was based on is sent as the `version` in the `meta`
+    of its operation. Aborting the `signal` of any of the saves aborts the
+    whole transaction.
+
+    @method commitTransaction
+    @public
+    @param {Store} store
+    @param {Array<Snapshot>} snapshots
+    @return {Promise} promise
+  */
+  commitTransaction(store: Store, snapshots: Snapshot[]): Promise<(AdapterPayload | null)[]> {
+    const lids = new Set(snapshots.filter((s) => s.operation === 'createRecord').map((s) => s.identifier.lid));
+    const operations = snapshots.map((snapshot) => {
+      const serializer = store.serializerFor(snapshot.modelName) as AtomicSerializer;
+      assert(
+        `The serializer for ${snapshot.modelName} must implement serializeAtomicOperation to be saved in a transaction`,
+        typeof serializer.serializeAtomicOperation === 'function'
+      );
+      const operation = serializer.serializeAtomicOperation(snapshot, lids) as { meta?: object };
+      if (snapshot.version) {
+        operation.meta = Object.assign({}, operation.meta, { version: snapshot.version });
+      }
+      return operation;
+    });
+    const url = this.urlForCommitTransaction(snapshots);
+
+    return this.ajax(
+      url,
+      'POST',
+      withSignal(signalForSnapshots(snapshots), {
+        data: { 'atomic:operations': operations },
+        contentType: ATOMIC_MEDIA_TYPE,
+        headers: { Accept: ATOMIC_MEDIA_TYPE },
+      })
+    ).then(
+      (payload: AdapterPayload) => {
+        const results = (payload && payload['atomic:results']) || [];
+        return snapshots.map((_, i) => (results[i] && results[i].data ? { data: results[i].data } : null));
+      },
+      (error: Error & { errors?: JsonApiValidationError[]; recordErrors?: JsonApiValidationError[][] }) => {
+        if (error && Array.isArray(error.errors)) {
+          error.recordErrors = errorsForOperations(error.errors, snapshots.length);
+        }
+        throw error;
+      }
+    );
+  }
+
+  /**
+    Builds the URL to which `commitTransaction` sends its operations,
+    `/operations` by default.
+
+    @method urlForCommitTransaction
+    @public
+    @param {Array<Snapshot>} snapshots
+    @return {String} url
+  */
+  urlForCommitTransaction(snapshots: Snapshot[]): string {
+    return `${this.urlPrefix()}/operations`;
+  }
+}
+
+// a signal which aborts when the signal of any of the saves does
+function signalForSnapshots(snapshots: Snapshot[]): { signal?: AbortSignal } {
+  const signals: AbortSignal[] = [];
+  snapshots.forEach(({ signal }) => {
+    if (signal && signals.indexOf(signal) === -1) {
+      signals.push(signal);
+    }
+  });
+  if (signals.length < 2) {
+    return { signal: signals[0] };
+  }
+  const controller = new AbortController();
+  signals.forEach((signal) => {
+    if (signal.aborted) {
+      controller.abort();
+    } else {
+      signal.addEventListener('abort', () => controller.abort(), { once: true });
+    }
+  });
+  return { signal: controller.signal };
+}
+
+// splits the errors of a failed request by the operation their pointer refers to,
+// rebasing the pointer onto the operation's document
+function errorsForOperations(errors: JsonApiValidationError[], count: number): JsonApiValidationError[][] {
+  const recordErrors: JsonApiValidationError[][] = [];
+  for (let i = 0; i < count; i++) {
+    recordErrors.push([]);
+  }
+  errors.forEach((error) => {
+    const match = error.source && OPERATION_POINTER.exec(error.source.pointer);
+    if (match && recordErrors[match[1]]) {
+      recordErrors[match[1]].push(Object.assign({}, error, { source: { pointer: match[2] || '/data' } }));
+    }
+  });
+  return recordErrors;
 }
 
 export default JSONAPIAdapter;
@@ -10,13 +10,22 @@ import { DEBUG } from '@glimmer/env';
 import { Promise as RSVPPromise } from 'rsvp';
 
 import type Store from '@ember-data/store';
+import { setResponseInfo } from '@ember-data/store';
 import type ShimModelClass from '@ember-data/store/-private/legacy-model-support/shim-model-class';
 import type Snapshot from '@ember-data/store/-private/network/snapshot';
 import type SnapshotRecordArray from '@ember-data/store/-private/network/snapshot-record-array';
 import type { AdapterPayload } from '@ember-data/types/q/minimum-adapter-interface';
 import type { Dict } from '@ember-data/types/q/utils';
 
-import { determineBodyPromise, fetch, parseResponseHeaders, serializeIntoHash, serializeQueryParams } from './-private';
+import {
+  determineBodyPromise,
+  fetch,
+  parseResponseHeaders,
+  serializeIntoHash,
+  serializeQueryParams,
+  withSignal,
+  withVersion,
+} from './-private';
 import type { FastBoot } from './-private/fastboot-interface';
 import AdapterError, {
   AbortError,
@@ -566,7 +575,7 @@ class RESTAdapter extends Adapter.extend(BuildURLMixin) {
     let url = this.buildURL(type.modelName, id, snapshot, 'findRecord');
     let query: QueryState = this.buildQuery(snapshot);
 
-    return this.ajax(url, 'GET', { data: query });
+    return this.ajax(url, 'GET', withSignal(snapshot, { data: query }));
   }
 
   /**
@@ -597,7 +606,7 @@ class RESTAdapter extends Adapter.extend(BuildURLMixin) {
       query.since = sinceToken;
     }
 
-    return this.ajax(url, 'GET', { data: query });
+    return this.ajax(url, 'GET', withSignal(snapshotRecordArray, { data: query }));
   }
 
   /**
@@ -620,14 +629,20 @@ class RESTAdapter extends Adapter.extend(BuildURLMixin) {
     @param {Object} adapterOptions
     @return {Promise} promise
   */
-  query(store: Store, type: ShimModelClass, query): Promise<AdapterPayload> {
+  query(
+    store: Store,
+    type: ShimModelClass,
+    query,
+    recordArray?: unknown,
+    options?: { signal?: AbortSignal }
+  ): Promise<AdapterPayload> {
     let url = this.buildURL(type.modelName, null, null, 'query', query);
 
     if (this.sortQueryParams) {
       query = this.sortQueryParams(query);
     }
 
-    return this.ajax(url, 'GET', { data: query });
+    return this.ajax(url, 'GET', withSignal(options, { data: query }));
   }
 
   /**
@@ -662,7 +677,7 @@ class RESTAdapter extends Adapter.extend(BuildURLMixin) {
       query = this.sortQueryParams(query);
     }
 
-    return this.ajax(url, 'GET', { data: query });
+    return this.ajax(url, 'GET', withSignal(adapterOptions, { data: query }));
   }
 
   /**
@@ -691,6 +706,10 @@ class RESTAdapter extends Adapter.extend(BuildURLMixin) {
     The `findMany` method makes an Ajax (HTTP GET) request to a URL computed by `buildURL`, and returns a
     promise for the resulting payload.
 
+    The request is cancelled by the `signal` of the snapshots only when every
+    snapshot was requested with that same signal, so that aborting one of the
+    coalesced requests does not cancel the others.
+
     @method findMany
     @public
     @param {Store} store
@@ -701,7 +720,10 @@ class RESTAdapter extends Adapter.extend(BuildURLMixin) {
   */
   findMany(store: Store, type: ShimModelClass, ids: string[], snapshots: Snapshot[]): Promise<AdapterPayload> {
     let url = this.buildURL(type.modelName, ids, snapshots, 'findMany');
-    return this.ajax(url, 'GET', { data: { ids: ids } });
+    // the request is only cancelled when all the coalesced requests share the signal
+    let signal = snapshots[0] && snapshots[0].signal;
+    let source = snapshots.every((snapshot) => snapshot.signal === signal) ? snapshots[0] : null;
+    return this.ajax(url, 'GET', withSignal(source, { data: { ids: ids } }));
   }
 
   /**
@@ -751,7 +773,7 @@ class RESTAdapter extends Adapter.extend(BuildURLMixin) {
     );
     url = this.urlPrefix(url, this.buildURL(type, id, snapshot, 'findHasMany'));
 
-    return this.ajax(url, 'GET');
+    return this.ajax(url, 'GET', withSignal(snapshot));
   }
 
   /**
@@ -800,7 +822,7 @@ class RESTAdapter extends Adapter.extend(BuildURLMixin) {
       typeof id === 'string' && id.length > 0
     );
     url = this.urlPrefix(url, this.buildURL(type, id, snapshot, 'findBelongsTo'));
-    return this.ajax(url, 'GET');
+    return this.ajax(url, 'GET', withSignal(snapshot));
   }
 
   /**
@@ -825,7 +847,7 @@ class RESTAdapter extends Adapter.extend(BuildURLMixin) {
 
     const data = serializeIntoHash(store, type, snapshot);
 
-    return this.ajax(url, 'POST', { data });
+    return this.ajax(url, 'POST', withSignal(snapshot, { data }));
   }
 
   /**
@@ -852,7 +874,7 @@ class RESTAdapter extends Adapter.extend(BuildURLMixin) {
     assert(`Attempted to update the ${type} record, but the record has no id`, typeof id === 'string' && id.length > 0);
     let url = this.buildURL(type, id, snapshot, 'updateRecord');
 
-    return this.ajax(url, 'PUT', { data });
+    return this.ajax(url, 'PUT', withVersion(snapshot, withSignal(snapshot, { data })));
   }
 
   /**
@@ -872,7 +894,11 @@ class RESTAdapter extends Adapter.extend(BuildURLMixin) {
     const id = snapshot.id;
     assert(`Attempted to delete the ${type} record, but the record has no id`, typeof id === 'string' && id.length > 0);
 
-    return this.ajax(this.buildURL(type, id, snapshot, 'deleteRecord'), 'DELETE');
+    return this.ajax(
+      this.buildURL(type, id, snapshot, 'deleteRecord'),
+      'DELETE',
+      withVersion(snapshot, withSignal(snapshot))
+    );
   }
 
   _stripIDFromURL(store: Store, snapshot: Snapshot): string {
@@ -1027,7 +1053,12 @@ class RESTAdapter extends Adapter.extend(BuildURLMixin) {
       case 404:
         return new NotFoundError(errors, detailedMessage);
       case 409:
-        return new ConflictError(errors, detailedMessage);
+      case 412: {
+        let error = new ConflictError(errors, detailedMessage);
+        // the server may respond with its current copy of the record
+        error.payload = payload;
+        return error;
+      }
       default:
         if (status >= 500) {
           return new ServerError(errors, detailedMessage);
@@ -1103,7 +1134,15 @@ class RESTAdapter extends Adapter.extend(BuildURLMixin) {
 
     if (this.useFetch) {
       let hash: FetchRequestInit = adapter.ajaxOptions(url, type, options);
-      let response = await this._fetchRequest(hash);
+      let response: Response;
+      try {
+        response = await this._fetchRequest(hash);
+      } catch (e) {
+        if (hash.signal && hash.signal.aborted) {
+          throw handleAbort(requestData, { status: 0, textStatus: 'abort', headers: {} });
+        }
+        throw e;
+      }
       let payload = await determineBodyPromise(response, requestData);
 
       if (response.ok && !(payload instanceof Error)) {
@@ -1345,6 +1384,8 @@ function ajaxSuccess(
     return RSVPPromise.reject(error);
   }
 
+  setResponseInfo(response, responseInfo(responseData));
+
   if (response && response.isAdapterError) {
     return RSVPPromise.reject(response);
   } else {
@@ -1379,9 +1420,16 @@ function ajaxError(
     }
   }
 
+  setResponseInfo(error, responseInfo(responseData));
+
   return error;
 }
 
+function responseInfo(responseData: ResponseData) {
+  const { status, textStatus, headers } = responseData;
+  return { status, statusText: textStatus, headers };
+}
+
 // Adapter abort error to include any relevent info, e.g. request/response:
 function handleAbort(requestData: RequestData, responseData: ResponseData): AbortError {
   let { method, url, errorThrown } = requestData;
@@ -1539,6 +1587,12 @@ function ajaxOptions(options: JQueryRequestInit, adapter: RESTAdapter): JQueryRe
   }
 
   options.beforeSend = function (xhr) {
+    const { signal } = options as { signal?: AbortSignal };
+    if (signal) {
+      const abort = () => xhr.abort();
+      signal.addEventListener('abort', abort, { once: true });
+      xhr.always(() => signal.removeEventListener('abort', abort));
+    }
     if (options.headers) {
       Object.keys(options.headers).forEach((key) => {
         let headerValue = options.headers && options.headers[key];
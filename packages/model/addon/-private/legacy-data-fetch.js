@@ -4,16 +4,36 @@ import { DEBUG } from '@glimmer/env';
 import { resolve } from 'rsvp';
 
 import { DEPRECATE_RSVP_PROMISE } from '@ember-data/private-build-infra/deprecations';
+import { dedupe, dedupeKey, trackRequest } from '@ember-data/store/-private';
 
 import { iterateData, normalizeResponseHelper } from './legacy-data-utils';
 
-export function _findHasMany(adapter, store, identifier, link, relationship, options) {
+// `previous` is the relationship state a page of members is merged into
+export function _findHasMany(adapter, store, identifier, link, relationship, options, previous) {
+  let key = dedupeKey(['findHasMany', identifier.lid, relationship.key, linkHref(link)], options);
+  return dedupe(store, key, () => fetchHasMany(adapter, store, identifier, link, relationship, options, previous));
+}
+
+function fetchHasMany(adapter, store, identifier, link, relationship, options, previous) {
   const record = store._instanceCache.getRecord(identifier);
   const snapshot = store._instanceCache.createSnapshot(identifier, options);
   let modelClass = store.modelFor(relationship.type);
-  let useLink = !link || typeof link === 'string';
-  let relatedLink = useLink ? link : link.href;
-  let promise = adapter.findHasMany(store, snapshot, relatedLink, relationship);
+  let relatedLink = linkHref(link);
+  let request = {
+    data: [{ op: 'findHasMany', modelName: relationship.type, link: relatedLink, identifiers: [identifier], options }],
+  };
+  let promise = store._fetchManager._request({
+    op: 'findHasMany',
+    store,
+    adapter,
+    modelName: relationship.type,
+    modelClass,
+    snapshot,
+    link: relatedLink,
+    relationship,
+    options,
+    requests: [request],
+  });
   let label = `DS: Handle Adapter#findHasMany of '${identifier.type}' : '${relationship.type}'`;
 
   promise = guardDestroyedStore(promise, store, label);
@@ -49,7 +69,7 @@ export function _findHasMany(adapter, store, identifier, link, relationship, opt
         'data' in payload && Array.isArray(payload.data)
       );
 
-      payload = syncRelationshipDataFromLink(store, payload, identifier, relationship);
+      payload = syncRelationshipDataFromLink(store, payload, identifier, relationship, previous);
 
       return store._push(payload);
     },
@@ -57,6 +77,8 @@ export function _findHasMany(adapter, store, identifier, link, relationship, opt
     `DS: Extract payload of '${identifier.type}' : hasMany '${relationship.type}'`
   );
 
+  trackRequest(store, promise.then(identifiersIn), request);
+
   if (DEPRECATE_RSVP_PROMISE) {
     promise = _guard(promise, _bind(_objectIsAlive, record));
   }
@@ -65,6 +87,19 @@ export function _findHasMany(adapter, store, identifier, link, relationship, opt
 }
 
 export function _findBelongsTo(store, identifier, link, relationship, options) {
+  let key = dedupeKey(['findBelongsTo', identifier.lid, relationship.key, linkHref(link)], options);
+  return dedupe(store, key, () => fetchBelongsTo(store, identifier, link, relationship, options));
+}
+
+function identifiersIn(result) {
+  return Array.isArray(result) ? result : result ? [result] : [];
+}
+
+function linkHref(link) {
+  return !link || typeof link === 'string' ? link : link.href;
+}
+
+function fetchBelongsTo(store, identifier, link, relationship, options) {
   const record = store._instanceCache.getRecord(identifier);
   let adapter = store.adapterFor(identifier.type);
 
@@ -75,9 +110,24 @@ export function _findBelongsTo(store, identifier, link, relationship, options) {
   );
   let snapshot = store._instanceCache.createSnapshot(identifier, options);
   let modelClass = store.modelFor(relationship.type);
-  let useLink = !link || typeof link === 'string';
-  let relatedLink = useLink ? link : link.href;
-  let promise = adapter.findBelongsTo(store, snapshot, relatedLink, relationship);
+  let relatedLink = linkHref(link);
+  let request = {
+    data: [
+      { op: 'findBelongsTo', modelName: relationship.type, link: relatedLink, identifiers: [identifier], options },
+    ],
+  };
+  let promise = store._fetchManager._request({
+    op: 'findBelongsTo',
+    store,
+    adapter,
+    modelName: relationship.type,
+    modelClass,
+    snapshot,
+    link: relatedLink,
+    relationship,
+    options,
+    requests: [request],
+  });
   let label = `DS: Handle Adapter#findBelongsTo of ${identifier.type} : ${relationship.type}`;
 
   promise = guardDestroyedStore(promise, store, label);
@@ -124,6 +174,8 @@ export function _findBelongsTo(store, identifier, link, relationship, options) {
     `DS: Extract payload of ${identifier.type} : ${relationship.type}`
   );
 
+  trackRequest(store, promise.then(identifiersIn), request);
+
   if (DEPRECATE_RSVP_PROMISE) {
     promise = _guard(promise, _bind(_objectIsAlive, record));
   }
@@ -137,7 +189,7 @@ export function _findBelongsTo(store, identifier, link, relationship, options) {
 //   assert that record.relationships[inverse] is either undefined (so we can fix it)
 //     or provide a data: {id, type} that matches the record that requested it
 //   return the relationship data for the parent
-function syncRelationshipDataFromLink(store, payload, parentIdentifier, relationship) {
+function syncRelationshipDataFromLink(store, payload, parentIdentifier, relationship, previous) {
   // ensure the right hand side (incoming payload) points to the parent record that
   // requested this relationship
   let relationshipData = payload.data
@@ -160,6 +212,16 @@ function syncRelationshipDataFromLink(store, payload, parentIdentifier, relation
     relatedDataHash.data = relationshipData;
   }
 
+  // a page adds to the members we already have rather than replacing them,
+  // and the relationship keeps the link it was loaded from
+  if (previous) {
+    relatedDataHash.data = mergeMembers(previous.data, relationshipData || []);
+    relatedDataHash.links = Object.assign({ next: null }, payload.links);
+    if (previous.links && previous.links.related) {
+      relatedDataHash.links.related = previous.links.related;
+    }
+  }
+
   // now, push the left hand side (the parent record) to ensure things are in sync, since
   // the payload will be pushed with store._push
   const parentPayload = {
@@ -178,6 +240,17 @@ function syncRelationshipDataFromLink(store, payload, parentIdentifier, relation
   return payload;
 }
 
+function mergeMembers(members, page) {
+  let seen = new Set(members.map(({ type, id }) => `${type}:${id}`));
+  let merged = members.map(({ type, id }) => ({ type, id }));
+  page.forEach((member) => {
+    if (!seen.has(`${member.type}:${member.id}`)) {
+      merged.push(member);
+    }
+  });
+  return merged;
+}
+
 function ensureRelationshipIsSetToParent(payload, parentIdentifier, store, parentRelationship, index) {
   let { id, type } = payload;
 
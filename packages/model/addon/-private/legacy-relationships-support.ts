@@ -16,6 +16,7 @@ import type Store from '@ember-data/store';
 import { recordDataFor, recordIdentifierFor, storeFor } from '@ember-data/store/-private';
 import { IdentifierCache } from '@ember-data/store/-private/caches/identifier-cache';
 import type { DSModel } from '@ember-data/types/q/ds-model';
+import type { PaginationLinks } from '@ember-data/types/q/ember-data-json-api';
 import { ResourceIdentifierObject } from '@ember-data/types/q/ember-data-json-api';
 import type { StableRecordIdentifier } from '@ember-data/types/q/identifier';
 import type { RecordData } from '@ember-data/types/q/record-data';
@@ -229,6 +230,50 @@ export class LegacySupport {
     assert(`hasMany only works with the @ember-data/record-data package`);
   }
 
+  loadMoreHasMany(key: string, options?: FindOptions): Promise<ManyArray> {
+    if (HAS_RECORD_DATA_PACKAGE) {
+      let loadingPromise = this._relationshipPromisesCache[key] as Promise<ManyArray> | undefined;
+      if (loadingPromise) {
+        return loadingPromise;
+      }
+      const graphFor = (
+        importSync('@ember-data/record-data/-private') as typeof import('@ember-data/record-data/-private')
+      ).graphFor;
+      const relationship = graphFor(this.store).get(this.identifier, key) as ManyRelationship;
+      const { definition, links } = relationship;
+      const next = links && (links as PaginationLinks).next;
+      assert(`There is no next page to load for the '${key}' relationship of ${this.identifier.type}`, next);
+
+      const relationshipMeta = this.store._instanceCache._storeWrapper.relationshipsDefinitionFor(
+        definition.inverseType
+      )[definition.key];
+      const adapter = this.store.adapterFor(this.identifier.type);
+      assert(
+        `You tried to load a page of a hasMany relationship but your adapter does not implement 'findHasMany'`,
+        typeof adapter.findHasMany === 'function'
+      );
+      const manyArray = this.getManyArray(key, definition);
+      // the members we have are kept, the page only adds to them
+      const previous = { data: relationship.canonicalState.slice(), links };
+
+      const promise: Promise<ManyArray> = _findHasMany(
+        adapter,
+        this.store,
+        this.identifier,
+        next,
+        relationshipMeta,
+        options,
+        previous
+      ).then(
+        () => handleCompletedRelationshipRequest(this, key, relationship, manyArray),
+        (e: Error) => handleCompletedRelationshipRequest(this, key, relationship, manyArray, e)
+      );
+      this._relationshipPromisesCache[key] = promise;
+      return promise;
+    }
+    assert(`hasMany only works with the @ember-data/record-data package`);
+  }
+
   getHasMany(key: string, options?: FindOptions): PromiseManyArray | ManyArray {
     if (HAS_RECORD_DATA_PACKAGE) {
       const graphFor = (
@@ -258,6 +258,35 @@ export default class ManyArray extends MutableArrayWithObject<StableRecordIdenti
     this._meta = v;
   }
 
+  /**
+    `true` when only some of the members of a paginated relationship
+    have been loaded, either because the last page loaded has a `next`
+    link or because the `total` in its meta is larger than the length.
+
+    @property {Boolean} isPartial
+    @public
+  */
+  get isPartial(): boolean {
+    const links = this.links as PaginationLinks | null;
+    if (links && links.next) {
+      return true;
+    }
+    const { totalCount } = this;
+    return totalCount !== null && this.length < totalCount;
+  }
+
+  /**
+    The number of members of the relationship according to the `total`
+    of its meta, or `null` when the server did not provide one.
+
+    @property {Number | null} totalCount
+    @public
+  */
+  get totalCount(): number | null {
+    const meta = this.meta;
+    return meta && typeof meta.total === 'number' ? meta.total : null;
+  }
+
   objectAt(index: number): RecordInstance | undefined {
     if (this._isDirty) {
       this.retrieveLatest();
@@ -381,6 +410,34 @@ export default class ManyArray extends MutableArrayWithObject<StableRecordIdenti
     return this.legacySupport.reloadHasMany(this.key, options);
   }
 
+  /**
+    Loads the next page of a paginated relationship by following the
+    `next` link of the last page loaded, through the adapter's
+    `findHasMany`.
+
+    The members of the page are added to the members already loaded;
+    members the page does not include are not removed. The links and
+    meta of the relationship are those of the page.
+
+    Example
+
+    ```javascript
+    let comments = await post.comments;
+
+    while (comments.links.next) {
+      await comments.loadMore();
+    }
+    ```
+
+    @method loadMore
+    @public
+    @param {Object} options
+    @return {Promise} resolves with the ManyArray
+  */
+  loadMore(options?: FindOptions): Promise<ManyArray> {
+    return this.legacySupport.loadMoreHasMany(this.key, options);
+  }
+
   /**
     Saves all of the records in the `ManyArray`.
 
@@ -395,6 +452,10 @@ export default class ManyArray extends MutableArrayWithObject<StableRecordIdenti
     messages.save();
     ```
 
+    Saves of records of the same type are sent together in a single
+    request when the adapter implements `createRecords`, `updateRecords`
+    or `deleteRecords`.
+
     @method save
     @public
     @return {PromiseArray} promise
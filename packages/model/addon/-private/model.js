@@ -816,6 +816,84 @@ class Model extends EmberObject {
     return recordDataFor(this).changedAttributes();
   }
 
+  /**
+    Returns an object, whose keys are relationships of the record which
+    have been changed locally and whose values are `[oldValue, newValue]`
+    arrays, where the values are the identifiers of the related records:
+    an identifier (or `null`) for a `belongsTo` and an array of identifiers
+    for a `hasMany`.
+
+    Changes to relationships are not reflected by `hasDirtyAttributes`,
+    a form can combine both to tell whether a record has unsaved changes.
+
+    ```javascript
+    let post = await store.findRecord('post', '1');
+
+    post.changedRelationships(); // {}
+
+    post.author = otherUser;
+    post.changedRelationships(); // { author: [{ type: 'user', id: '1', lid }, { type: 'user', id: '2', lid }] }
+    ```
+
+    @method changedRelationships
+    @public
+    @return {Object} an object, whose keys are changed relationships,
+      and value is an [oldValue, newValue] array.
+  */
+  changedRelationships() {
+    const recordData = recordDataFor(this);
+    return typeof recordData.changedRelationships === 'function' ? recordData.changedRelationships() : {};
+  }
+
+  /**
+    Returns the attributes the server changed, in data pushed to the
+    store, while they had an unsaved local change. Each conflict holds the
+    `base` value the local change was made on, the `local` value and the
+    `remote` value, and is kept until the record is saved or rolled back.
+    How each conflict was resolved depends on the type's merge strategy,
+    see `store.setMergeStrategy`.
+
+    ```javascript
+    post.title = 'Mine';
+    store.push({ data: { type: 'post', id: '1', attributes: { title: 'Theirs' } } });
+
+    post.conflicts(); // [{ key: 'title', base: 'Original', local: 'Mine', remote: 'Theirs' }]
+    post.title; // 'Mine'
+    ```
+
+    @method conflicts
+    @public
+    @return {Array} the conflicting attributes
+  */
+  conflicts() {
+    const recordData = recordDataFor(this);
+    return typeof recordData.getConflicts === 'function' ? recordData.getConflicts() : [];
+  }
+
+  /**
+    Discards any unsaved changes to the relationships of the record,
+    returning them to the state last received from the server. Unlike
+    `rollbackAttributes`, new records are not removed from the store.
+
+    ```javascript
+    post.author; // tomster
+    post.author = zoey;
+    post.rollbackRelationships();
+    post.author; // tomster
+    ```
+
+    @method rollbackRelationships
+    @public
+  */
+  rollbackRelationships() {
+    const recordData = recordDataFor(this);
+    assert(
+      `The RecordData for ${recordIdentifierFor(this)} does not support rolling back relationships`,
+      typeof recordData.rollbackRelationships === 'function'
+    );
+    recordData.rollbackRelationships();
+  }
+
   /**
     If the model `hasDirtyAttributes` this function will discard any unsaved
     changes. If the model `isNew` it will be removed from the store.
@@ -889,6 +967,18 @@ class Model extends EmberObject {
     }
     ```
 
+    Passing `optimistic: true` reverts the changes being saved if the
+    save fails, returning the record's attributes, relationships and
+    deleted state to the state last acknowledged by the server. Changes
+    made while the save was in flight are kept.
+
+    ```js
+    post.title = 'New Title';
+    post.save({ optimistic: true }).catch(() => {
+      // post.title is once again the title confirmed by the server
+    });
+    ```
+
     @method save
     @public
     @param {Object} options
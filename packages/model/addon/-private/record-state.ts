@@ -188,6 +188,9 @@ export default class RecordState {
 
             notifyErrorsStateChanged(this);
             break;
+          case 'aborted':
+            this.isSaving = false;
+            break;
           case 'fulfilled':
             this._errorRequests = [];
             this._lastError = null;
@@ -210,6 +213,10 @@ export default class RecordState {
             this.notify('isLoading');
             notifyErrorsStateChanged(this);
             break;
+          case 'aborted':
+            this.pendingCount--;
+            this.notify('isLoading');
+            break;
           case 'fulfilled':
             this.pendingCount--;
             this.fulfilledCount++;
@@ -7,18 +7,39 @@ import type { RecordDataStoreWrapper } from '@ember-data/store/-private';
 import { recordIdentifierFor } from '@ember-data/store/-private';
 import type { CollectionResourceRelationship } from '@ember-data/types/q/ember-data-json-api';
 import type { RecordIdentifier, StableRecordIdentifier } from '@ember-data/types/q/identifier';
-import type { ChangedAttributesHash, RecordData } from '@ember-data/types/q/record-data';
+import type {
+  AttributeConflict,
+  ChangedAttributesHash,
+  ChangedRelationshipsHash,
+  RecordData,
+} from '@ember-data/types/q/record-data';
 import type { AttributesHash, JsonApiResource, JsonApiValidationError } from '@ember-data/types/q/record-data-json-api';
 import type {
   DefaultSingleResourceRelationship,
   RelationshipRecordData,
 } from '@ember-data/types/q/relationship-record-data';
+import type { Dict } from '@ember-data/types/q/utils';
 
-import { isImplicit } from './graph/-utils';
+import { isHasMany, isImplicit } from './graph/-utils';
 import { graphFor } from './graph/index';
 import type BelongsToRelationship from './relationships/state/belongs-to';
 import type ManyRelationship from './relationships/state/has-many';
 
+function toResourceIdentifier(identifier: StableRecordIdentifier) {
+  return { type: identifier.type, id: identifier.id, lid: identifier.lid };
+}
+
+interface Checkpoint {
+  attributes: Dict<unknown>;
+  isDeleted: boolean;
+  // the local state of relationships which differed from their remote state
+  relationships: Dict<StableRecordIdentifier[]>;
+}
+
+function sameMembers(a: StableRecordIdentifier[], b: StableRecordIdentifier[]): boolean {
+  return a.length === b.length && a.every((identifier, i) => identifier === b[i]);
+}
+
 const EMPTY_ITERATOR = {
   iterator() {
     return {
@@ -39,6 +60,7 @@ const EMPTY_ITERATOR = {
  */
 export default class RecordDataDefault implements RelationshipRecordData {
   declare _errors?: JsonApiValidationError[];
+  declare _conflicts?: Dict<AttributeConflict>;
   declare modelName: string;
   declare lid: string;
   declare identifier: StableRecordIdentifier;
@@ -86,12 +108,21 @@ export default class RecordDataDefault implements RelationshipRecordData {
       changedKeys = this._changedKeys(data.attributes);
     }
 
+    let mergedKeys: string[] | undefined;
+    if (data.attributes && this.hasChangedAttributes()) {
+      mergedKeys = this._mergeAttributes(data.attributes);
+    }
+
     Object.assign(this._data, data.attributes);
     if (this.__attributes) {
       // only do if we have attribute changes
       this._updateChangedAttributes();
     }
 
+    if (mergedKeys && mergedKeys.length) {
+      this._notifyAttributes(mergedKeys);
+    }
+
     if (data.relationships) {
       this._setupRelationships(data);
     }
@@ -119,6 +150,61 @@ export default class RecordDataDefault implements RelationshipRecordData {
     }
   }
 
+  _clearConflicts() {
+    if (this._conflicts) {
+      this._conflicts = undefined;
+      this.storeWrapper.notifyConflictsChange(this.modelName, this.id, this.lid);
+    }
+  }
+
+  getConflicts(): AttributeConflict[] {
+    const conflicts = this._conflicts;
+    return conflicts ? Object.keys(conflicts).map((key) => conflicts[key]!) : [];
+  }
+
+  /*
+    Resolves the attributes the server changed while they also have a
+    local change, according to the merge strategy of the type. Returns
+    the keys whose local value was replaced.
+  */
+  _mergeAttributes(updates: AttributesHash): string[] {
+    const strategy = this.storeWrapper.mergeStrategyFor(this.modelName);
+    const attrs = this._attributes;
+    const original = Object.assign(Object.create(null), this._data, this.__inFlightAttributes);
+    const mergedKeys: string[] = [];
+    let found = false;
+
+    Object.keys(updates).forEach((key) => {
+      const local = attrs[key];
+      const remote = updates[key];
+      if (local === undefined || isEqual(original[key], remote) || isEqual(local, remote)) {
+        return;
+      }
+
+      const conflict: AttributeConflict = { key, base: original[key], local, remote };
+      this._conflicts = this._conflicts || (Object.create(null) as Dict<AttributeConflict>);
+      this._conflicts[key] = conflict;
+      found = true;
+
+      if (strategy === 'remote-wins') {
+        delete attrs[key];
+        mergedKeys.push(key);
+      } else if (typeof strategy === 'function') {
+        const value = strategy(conflict, this.identifier);
+        if (value !== local) {
+          // a resolution equal to the remote value is dropped by _updateChangedAttributes
+          attrs[key] = value;
+          mergedKeys.push(key);
+        }
+      }
+    });
+
+    if (found) {
+      this.storeWrapper.notifyConflictsChange(this.modelName, this.id, this.lid);
+    }
+    return mergedKeys;
+  }
+
   getErrors(): JsonApiValidationError[] {
     let errors: JsonApiValidationError[] = this._errors || [];
     return errors;
@@ -152,6 +238,7 @@ export default class RecordDataDefault implements RelationshipRecordData {
     this.__inFlightAttributes = null;
     this.__data = null;
     this._errors = undefined;
+    this._conflicts = undefined;
   }
 
   _setupRelationships(data) {
@@ -245,6 +332,54 @@ export default class RecordDataDefault implements RelationshipRecordData {
     return diffData;
   }
 
+  /**
+    Returns the state of this record as last acknowledged by the
+    server, excluding any local changes, as a JSON:API resource.
+    Returns `null` for records which have no remote state.
+
+    @method getRemoteResource
+    @internal
+  */
+  getRemoteResource(): JsonApiResource | null {
+    if (this._isNew || this._isDeleted || this.id === null) {
+      return null;
+    }
+    const { modelName: type, id, lid } = this;
+    let resource: JsonApiResource = { type, id, lid, attributes: Object.assign({}, this._data) };
+
+    let graph = graphFor(this.storeWrapper);
+    let definitions = this.storeWrapper.relationshipsDefinitionFor(type);
+    let keys = Object.keys(definitions);
+    let relationships = Object.create(null);
+    for (let i = 0; i < keys.length; i++) {
+      let relationship = graph.get(this.identifier, keys[i]);
+      if (isImplicit(relationship)) {
+        continue;
+      }
+      let payload: Record<string, unknown> = {};
+      if (relationship.state.hasReceivedData) {
+        if (isHasMany(relationship)) {
+          payload.data = relationship.canonicalState.map(toResourceIdentifier);
+        } else {
+          let remote = (relationship as BelongsToRelationship).remoteState;
+          payload.data = remote ? toResourceIdentifier(remote) : null;
+        }
+      }
+      if (relationship.links) {
+        payload.links = relationship.links;
+      }
+      if (relationship.meta) {
+        payload.meta = relationship.meta;
+      }
+      if (Object.keys(payload).length) {
+        relationships[keys[i]] = payload;
+      }
+    }
+    resource.relationships = relationships;
+
+    return resource;
+  }
+
   isNew() {
     return this._isNew;
   }
@@ -267,6 +402,7 @@ export default class RecordDataDefault implements RelationshipRecordData {
     this._inFlightAttributes = null;
 
     this._clearErrors();
+    this._clearConflicts();
     this.notifyStateChange();
 
     if (dirtyKeys && dirtyKeys.length) {
@@ -307,6 +443,7 @@ export default class RecordDataDefault implements RelationshipRecordData {
     this._updateChangedAttributes();
     this._notifyAttributes(changedKeys);
     this._clearErrors();
+    this._clearConflicts();
 
     this.notifyStateChange();
     return changedKeys;
@@ -369,6 +506,126 @@ export default class RecordDataDefault implements RelationshipRecordData {
     this.storeWrapper.notifyErrorsChange(this.modelName, this.id, this.lid);
   }
 
+  /**
+    Returns the relationships whose local state differs from the state
+    last received from the server, as `[remote, local]` pairs: related
+    identifiers (or `null`) for a `belongsTo` and arrays of identifiers
+    for a `hasMany`.
+
+    @method changedRelationships
+    @public
+  */
+  changedRelationships(): ChangedRelationshipsHash {
+    let changed = Object.create(null) as ChangedRelationshipsHash;
+    // relationships which were never initialized cannot have local changes
+    let initialized = graphFor(this.storeWrapper).identifiers.get(this.identifier);
+    if (initialized) {
+      Object.keys(initialized).forEach((key) => {
+        let relationship = initialized![key]!;
+        if (isImplicit(relationship)) {
+          return;
+        }
+        let local: StableRecordIdentifier[] = getLocalState(relationship);
+        let remote: StableRecordIdentifier[] = getRemoteState(relationship);
+        if (!sameMembers(local, remote)) {
+          changed[key] = isHasMany(relationship)
+            ? [remote.slice(), local.slice()]
+            : [remote[0] || null, local[0] || null];
+        }
+      });
+    }
+    return changed;
+  }
+
+  /**
+    Discards the local changes to relationships, returning them to the
+    state last received from the server. Returns the keys of the
+    relationships which were changed.
+
+    @method rollbackRelationships
+    @public
+  */
+  rollbackRelationships(): string[] {
+    let keys = Object.keys(this.changedRelationships());
+    keys.forEach((field) => this._resetRelationship(field));
+    return keys;
+  }
+
+  _resetRelationship(field: string) {
+    let graph = graphFor(this.storeWrapper);
+    let relationship = graph.get(this.identifier, field);
+    let remote: StableRecordIdentifier[] = getRemoteState(relationship);
+    if (isHasMany(relationship)) {
+      graph.update({ op: 'replaceRelatedRecords', record: this.identifier, field, value: remote.slice() });
+    } else {
+      graph.update({ op: 'replaceRelatedRecord', record: this.identifier, field, value: remote[0] || null });
+    }
+  }
+
+  /**
+    Captures the local changes which are about to be committed so that
+    `restoreCheckpoint` can revert them if an optimistic save fails.
+
+    @method createCheckpoint
+    @internal
+  */
+  createCheckpoint(): Checkpoint {
+    let relationships = Object.create(null) as Dict<StableRecordIdentifier[]>;
+    let changed = this.changedRelationships();
+    Object.keys(changed).forEach((key) => {
+      let local = changed[key][1];
+      relationships[key] = Array.isArray(local) ? local : local ? [local] : [];
+    });
+
+    return {
+      attributes: Object.assign({}, this.__attributes),
+      isDeleted: this._isDeleted,
+      relationships,
+    };
+  }
+
+  /**
+    Reverts the changes captured by `createCheckpoint` which have not
+    been changed again since, returning the record to the state last
+    acknowledged by the server. Called after `commitWasRejected`.
+
+    Records which were never saved have no such state and are left as is.
+
+    @method restoreCheckpoint
+    @internal
+  */
+  restoreCheckpoint(checkpoint: Checkpoint) {
+    if (this._isNew) {
+      return;
+    }
+    let revertedKeys: string[] = [];
+    let attrs = this.__attributes;
+    if (attrs) {
+      Object.keys(checkpoint.attributes).forEach((key) => {
+        if (key in attrs && attrs[key] === checkpoint.attributes[key]) {
+          delete attrs[key];
+          revertedKeys.push(key);
+        }
+      });
+    }
+
+    let graph = graphFor(this.storeWrapper);
+    Object.keys(checkpoint.relationships).forEach((field) => {
+      if (sameMembers(getLocalState(graph.get(this.identifier, field)), checkpoint.relationships[field]!)) {
+        this._resetRelationship(field);
+      }
+    });
+
+    if (checkpoint.isDeleted && this._isDeleted) {
+      this._isDeleted = false;
+    }
+
+    this.notifyStateChange();
+    if (revertedKeys.length) {
+      this._notifyAttributes(revertedKeys);
+    }
+  }
+
   getBelongsTo(key: string): DefaultSingleResourceRelationship {
     return (graphFor(this.storeWrapper).get(this.identifier, key) as BelongsToRelationship).getData();
   }
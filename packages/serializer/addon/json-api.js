@@ -727,6 +727,92 @@ const JSONAPISerializer = JSONSerializer.extend({
       }
     }
   },
+
+  /**
+    Serializes a snapshot saved in a transaction into an operation of the
+    [Atomic Operations](https://jsonapi.org/ext/atomic/) extension, used by
+    the `JSONAPIAdapter`'s `commitTransaction`.
+
+    Created records are sent with their `lid`, and relationships to other
+    records created in the same transaction refer to them by their `lid`
+    so that the server can resolve them.
+
+    ```javascript
+    {
+      "op": "add",
+      "data": {
+        "type": "comments",
+        "lid": "@lid:comment-1",
+        "attributes": { "body": "Yep. Omakase." },
+        "relationships": {
+          "post": { "data": { "type": "posts", "lid": "@lid:post-1" } }
+        }
+      }
+    }
+    ```
+
+    @method serializeAtomicOperation
+    @public
+    @param {Snapshot} snapshot
+    @param {Set<String>} lids the lids of the records created in the transaction
+    @return {Object} operation
+  */
+  serializeAtomicOperation(snapshot, lids) {
+    let type = this.payloadKeyFromModelName(snapshot.modelName);
+
+    if (snapshot.operation === 'deleteRecord') {
+      return { op: 'remove', ref: { type, id: snapshot.id } };
+    }
+
+    let { data } = this.serialize(snapshot, { includeId: true });
+    if (snapshot.operation === 'createRecord') {
+      data.lid = snapshot.identifier.lid;
+    }
+    this._serializeAtomicLinkage(snapshot, data, lids);
+
+    return { op: snapshot.operation === 'createRecord' ? 'add' : 'update', data };
+  },
+
+  /**
+    `serializeBelongsTo` and `serializeHasMany` leave out related records
+    which are new, those created in the same transaction are added back
+    as a reference to their `lid`.
+
+    @method _serializeAtomicLinkage
+    @private
+  */
+  _serializeAtomicLinkage(snapshot, json, lids) {
+    let isPending = (related) => related && related.isNew && lids.has(related.identifier.lid);
+    let linkage = (related) => {
+      let type = this.payloadKeyFromModelName(related.modelName);
+      return related.isNew ? { type, lid: related.identifier.lid } : { type, id: related.id };
+    };
+    let schema = this.store.modelFor(snapshot.modelName);
+
+    snapshot.eachRelationship((key, relationship) => {
+      let data;
+      if (relationship.kind === 'belongsTo') {
+        let belongsTo = this._canSerialize(key) ? snapshot.belongsTo(key) : undefined;
+        if (!isPending(belongsTo)) {
+          return;
+        }
+        data = linkage(belongsTo);
+      } else {
+        let hasMany = this.shouldSerializeHasMany(snapshot, key, relationship) ? snapshot.hasMany(key) : undefined;
+        if (!hasMany || !hasMany.some(isPending)) {
+          return;
+        }
+        data = hasMany.filter((related) => !related.isNew || isPending(related)).map(linkage);
+      }
+
+      let payloadKey = this._getMappedKey(key, schema);
+      if (payloadKey === key) {
+        payloadKey = this.keyForRelationship(key, relationship.kind, 'serialize');
+      }
+      json.relationships = json.relationships || {};
+      json.relationships[payloadKey] = { data };
+    });
+  },
 });
 
 if (DEBUG) {
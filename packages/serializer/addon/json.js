@@ -110,6 +110,29 @@ const JSONSerializer = Serializer.extend({
   */
   primaryKey: 'id',
 
+  /**
+    When `true`, records being updated are serialized with only the
+    attributes reported by `snapshot.changedAttributes()` and the
+    relationships reported by `snapshot.changedRelationships()`, so that
+    an update does not overwrite fields which were changed elsewhere.
+
+    Records being created are always serialized in full.
+
+    ```app/serializers/application.js
+    import JSONAPISerializer from '@ember-data/serializer/json-api';
+
+    export default class ApplicationSerializer extends JSONAPISerializer {
+      partialUpdates = true;
+    }
+    ```
+
+    @property partialUpdates
+    @type {Boolean}
+    @public
+    @default false
+  */
+  partialUpdates: false,
+
   /**
     The `attrs` object can be used to declare a simple mapping between
     property names on `Model` records and payload keys in the
@@ -266,6 +289,10 @@ const JSONSerializer = Serializer.extend({
         return this.normalizeDeleteRecordResponse(...arguments);
       case 'updateRecord':
         return this.normalizeUpdateRecordResponse(...arguments);
+      case 'createRecords':
+      case 'deleteRecords':
+      case 'updateRecords':
+        return this.normalizeSaveRecordsResponse(...arguments);
     }
   },
 
@@ -467,6 +494,28 @@ const JSONSerializer = Serializer.extend({
     return this.normalizeSingleResponse(...arguments);
   },
 
+  /**
+    Called by the default normalizeResponse implementation when several
+    saves of a type were made in a single request, the `requestType` being
+    `createRecords`, `updateRecords` or `deleteRecords`.
+
+    The `data` of the returned document must hold the resource of each
+    saved record in the order the adapter received their snapshots, which
+    is how the store matches the response back to the records.
+
+    @method normalizeSaveRecordsResponse
+    @public
+    @param {Store} store
+    @param {Model} primaryModelClass
+    @param {Object} payload
+    @param {String|Number} id
+    @param {String} requestType
+    @return {Object} JSON-API Document
+  */
+  normalizeSaveRecordsResponse(store, primaryModelClass, payload, id, requestType) {
+    return this.normalizeArrayResponse(...arguments);
+  },
+
   /**
     normalizeQueryResponse and normalizeFindRecordResponse delegate to this
     method by default.
@@ -1111,11 +1160,21 @@ const JSONSerializer = Serializer.extend({
       }
     }
 
+    let isPartial = this.partialUpdates && snapshot.operation === 'updateRecord';
+    let changedAttributes = isPartial ? snapshot.changedAttributes() : null;
+    let changedRelationships = isPartial ? snapshot.changedRelationships() : null;
+
     snapshot.eachAttribute((key, attribute) => {
+      if (changedAttributes && !(key in changedAttributes)) {
+        return;
+      }
       this.serializeAttribute(snapshot, json, key, attribute);
     });
 
     snapshot.eachRelationship((key, relationship) => {
+      if (changedRelationships && !(key in changedRelationships)) {
+        return;
+      }
       if (relationship.kind === 'belongsTo') {
         this.serializeBelongsTo(snapshot, json, relationship);
       } else if (relationship.kind === 'hasMany') {
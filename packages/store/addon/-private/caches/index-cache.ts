@@ -0,0 +1,198 @@
+/**
+ * @module @ember-data/store
+ */
+import { warn } from '@ember/debug';
+import { DEBUG } from '@glimmer/env';
+
+import type { StableRecordIdentifier } from '@ember-data/types/q/identifier';
+import type { IndexOptions } from '@ember-data/types/q/store';
+import type { Dict } from '@ember-data/types/q/utils';
+
+import type Store from '../store-service';
+
+interface Index {
+  name: string;
+  attribute: string;
+  unique: boolean;
+  entries: Map<unknown, Set<StableRecordIdentifier>>;
+  // the keys each record is currently indexed under
+  keys: Map<StableRecordIdentifier, unknown[]>;
+}
+
+const EMPTY: StableRecordIdentifier[] = [];
+
+// dates are indexed by time, and each value of an array attribute is indexed
+function keysFor(value: unknown): unknown[] {
+  if (value === null || value === undefined) {
+    return EMPTY;
+  }
+  if (Array.isArray(value)) {
+    return (value as unknown[]).map(keyFor).filter((key) => key !== null && key !== undefined);
+  }
+  return [keyFor(value)];
+}
+
+function keyFor(value: unknown): unknown {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+/**
+ * Maintains the indexes declared with `store.registerIndex`, mapping the
+ * values of an attribute to the records of a type that hold them.
+ *
+ * @class IndexCache
+ * @internal
+ */
+export default class IndexCache {
+  declare store: Store;
+  declare _indexes: Dict<Dict<Index>>;
+  // records with changed attributes, indexed again on the next lookup
+  declare _pending: Set<StableRecordIdentifier>;
+
+  constructor(store: Store) {
+    this.store = store;
+    this._indexes = Object.create(null) as Dict<Dict<Index>>;
+    this._pending = new Set();
+  }
+
+  register(modelName: string, name: string, options: IndexOptions): void {
+    const indexes = (this._indexes[modelName] = this._indexes[modelName] || (Object.create(null) as Dict<Index>));
+    const index: Index = {
+      name,
+      attribute: options.attribute || name,
+      unique: options.unique === true,
+      entries: new Map(),
+      keys: new Map(),
+    };
+    indexes[name] = index;
+
+    const list = this.store._instanceCache.peekList[modelName];
+    if (list) {
+      list.forEach((identifier) => this._updateIndex(index, identifier));
+    }
+  }
+
+  unregister(modelName: string, name: string): void {
+    const indexes = this._indexes[modelName];
+    if (indexes) {
+      delete indexes[name];
+    }
+  }
+
+  has(modelName: string, name: string): boolean {
+    return !!this._indexes[modelName]?.[name];
+  }
+
+  isUnique(modelName: string, name: string): boolean {
+    return !!this._indexes[modelName]?.[name]?.unique;
+  }
+
+  /**
+   * The records indexed under a value, in the order they were indexed.
+   *
+   * @internal
+   */
+  lookup(modelName: string, name: string, value: unknown): StableRecordIdentifier[] {
+    this._flushPending();
+    const entry = this._indexes[modelName]![name]!.entries.get(keyFor(value));
+    return entry ? [...entry] : EMPTY;
+  }
+
+  /**
+   * Indexes the record again under the current values of its attributes.
+   *
+   * @internal
+   */
+  update(identifier: StableRecordIdentifier): void {
+    const indexes = this._indexes[identifier.type];
+    if (!indexes) {
+      return;
+    }
+    for (const name in indexes) {
+      this._updateIndex(indexes[name]!, identifier);
+    }
+  }
+
+  /**
+   * Marks the record to be indexed again when the attribute that changed
+   * is indexed, or when no key is given. Local changes are notified before
+   * the cache holds the new value, so this waits for the next lookup.
+   *
+   * @internal
+   */
+  attributeDidChange(identifier: StableRecordIdentifier, key?: string): void {
+    const indexes = this._indexes[identifier.type];
+    if (!indexes) {
+      return;
+    }
+    for (const name in indexes) {
+      if (key === undefined || indexes[name]!.attribute === key) {
+        this._pending.add(identifier);
+        return;
+      }
+    }
+  }
+
+  remove(identifier: StableRecordIdentifier): void {
+    this._pending.delete(identifier);
+    const indexes = this._indexes[identifier.type];
+    if (!indexes) {
+      return;
+    }
+    for (const name in indexes) {
+      this._setKeys(indexes[name]!, identifier, EMPTY);
+    }
+  }
+
+  _flushPending(): void {
+    if (!this._pending.size) {
+      return;
+    }
+    const pending = this._pending;
+    this._pending = new Set();
+    pending.forEach((identifier) => this.update(identifier));
+  }
+
+  _updateIndex(index: Index, identifier: StableRecordIdentifier): void {
+    const recordData = this.store._instanceCache.peek({ identifier, bucket: 'recordData' });
+    const value: unknown = recordData ? recordData.getAttr(index.attribute) : undefined;
+    this._setKeys(index, identifier, keysFor(value));
+  }
+
+  _setKeys(index: Index, identifier: StableRecordIdentifier, keys: unknown[]): void {
+    const previous = index.keys.get(identifier) || EMPTY;
+
+    previous.forEach((key) => {
+      if (keys.indexOf(key) !== -1) {
+        return;
+      }
+      const entry = index.entries.get(key)!;
+      entry.delete(identifier);
+      if (!entry.size) {
+        index.entries.delete(key);
+      }
+    });
+
+    keys.forEach((key) => {
+      let entry = index.entries.get(key);
+      if (!entry) {
+        entry = new Set();
+        index.entries.set(key, entry);
+      }
+      if (DEBUG) {
+        warn(
+          `The value '${String(key)}' of the unique index '${index.name}' is held by more than one ${identifier.type}`,
+          !index.unique || entry.size === 0 || entry.has(identifier),
+          { id: 'ds.store.index.duplicate-unique-value' }
+        );
+      }
+      entry.add(identifier);
+    });
+
+    if (keys.length) {
+      index.keys.set(identifier, keys);
+    } else {
+      index.keys.delete(identifier);
+    }
+  }
+}
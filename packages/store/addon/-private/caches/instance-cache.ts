@@ -400,6 +400,7 @@ export class InstanceCache {
       }
 
       this.store._fetchManager.clearEntries(identifier);
+      this.store._indexCache.remove(identifier);
       this.store.recordArrayManager.recordDidChange(identifier);
       if (LOG_INSTANCE_CACHE) {
         // eslint-disable-next-line no-console
@@ -554,6 +555,7 @@ export class InstanceCache {
 
     const hasRecord = this.#instances.record.has(identifier);
     recordData.pushData(data, hasRecord);
+    this.store._indexCache.update(identifier);
 
     if (!isUpdate) {
       this.store.recordArrayManager.recordDidChange(identifier);
@@ -0,0 +1,239 @@
+/**
+  @module @ember-data/store
+*/
+import { assert } from '@ember/debug';
+
+import type { StableRecordIdentifier } from '@ember-data/types/q/identifier';
+import type { LocalQuery, LocalQueryOperators, LocalQueryValue } from '@ember-data/types/q/store';
+
+import type Store from '../store-service';
+
+interface Step {
+  kind: 'belongsTo' | 'hasMany' | 'attribute' | 'id';
+  key: string;
+}
+
+interface Field {
+  steps: Step[];
+  // the transform of the attribute the path ends on
+  attributeType: string | null;
+}
+
+type Comparable = string | number | boolean | null;
+type Condition = (identifier: StableRecordIdentifier) => boolean;
+
+const OPERATORS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'contains'];
+
+// resolves a path such as 'author.name' against the schemas of the types it goes through
+function fieldFor(store: Store, modelName: string, path: string): Field {
+  const schema = store.getSchemaDefinitionService();
+  const segments = path.split('.');
+  const steps: Step[] = [];
+  let type = modelName;
+
+  for (let i = 0; i < segments.length; i++) {
+    const key = segments[i];
+    const isLast = i === segments.length - 1;
+
+    if (isLast && key === 'id') {
+      steps.push({ kind: 'id', key });
+      return { steps, attributeType: null };
+    }
+    const attribute = schema.attributesDefinitionFor({ type })[key];
+    if (isLast && attribute) {
+      steps.push({ kind: 'attribute', key });
+      return { steps, attributeType: attribute.type || null };
+    }
+    const relationship = schema.relationshipsDefinitionFor({ type })[key];
+    assert(
+      `Cannot query '${path}' of ${modelName}: ${type} has no ${isLast ? 'attribute' : 'relationship'} named '${key}'`,
+      !isLast && relationship
+    );
+    steps.push({ kind: relationship.kind, key });
+    type = relationship.type;
+  }
+  assert(`Cannot query '${path}' of ${modelName}`);
+}
+
+// the values of a field for a record, more than one when the path goes through a hasMany
+function valuesOf(store: Store, identifier: StableRecordIdentifier, steps: Step[]): unknown[] {
+  const cache = store._instanceCache;
+  let identifiers = [identifier];
+
+  for (let i = 0; i < steps.length; i++) {
+    const { kind, key } = steps[i];
+    if (kind === 'id') {
+      return identifiers.map((current) => current.id);
+    }
+    if (kind === 'attribute') {
+      return identifiers.map((current) => cache.getRecordData(current).getAttr(key) as unknown);
+    }
+    const related: StableRecordIdentifier[] = [];
+    identifiers.forEach((current) => {
+      const recordData = cache.getRecordData(current);
+      const data = kind === 'belongsTo' ? [recordData.getBelongsTo(key).data] : recordData.getHasMany(key).data || [];
+      data.forEach((resource) => {
+        if (!resource) {
+          return;
+        }
+        const relatedIdentifier = store.identifierCache.getOrCreateRecordIdentifier(resource);
+        // records that are not loaded have no values to match
+        if (cache.recordIsLoaded(relatedIdentifier, true)) {
+          related.push(relatedIdentifier);
+        }
+      });
+    });
+    identifiers = related;
+  }
+  return [];
+}
+
+// brings values to a form that compares with === and <, based on the attribute's transform
+function normalize(value: unknown, attributeType: string | null): Comparable {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  switch (attributeType) {
+    case 'date': {
+      const time = (value instanceof Date ? value : new Date(value as string | number)).getTime();
+      return isNaN(time) ? null : time;
+    }
+    case 'number':
+      return typeof value === 'number' ? value : Number(value);
+    case 'boolean':
+      return typeof value === 'boolean' ? value : value === 'true';
+    default:
+      if (value instanceof Date) {
+        return value.getTime();
+      }
+      return value as Comparable;
+  }
+}
+
+function isOperators(condition: LocalQueryValue | LocalQueryOperators | undefined): condition is LocalQueryOperators {
+  return !!condition && typeof condition === 'object' && !(condition instanceof Date);
+}
+
+function conditionFor(
+  store: Store,
+  modelName: string,
+  path: string,
+  condition: LocalQueryValue | LocalQueryOperators | undefined
+): Condition {
+  const { steps, attributeType } = fieldFor(store, modelName, path);
+  const operators: LocalQueryOperators = isOperators(condition) ? condition : { eq: condition };
+  const tests: Array<(value: Comparable) => boolean> = [];
+
+  Object.keys(operators).forEach((operator) => {
+    assert(
+      `Unknown operator '${operator}' for '${path}', expected one of ${OPERATORS.join(', ')}`,
+      OPERATORS.indexOf(operator) !== -1
+    );
+    if (operator === 'in') {
+      const list = operators.in;
+      assert(`Expected the 'in' operator for '${path}' to be given an array`, Array.isArray(list));
+      const expected = list.map((item) => normalize(item, attributeType));
+      tests.push((value) => expected.indexOf(value) !== -1);
+      return;
+    }
+    if (operator === 'contains') {
+      const text = String(operators.contains).toLowerCase();
+      tests.push((value) => typeof value === 'string' && value.toLowerCase().indexOf(text) !== -1);
+      return;
+    }
+    const expected = normalize(operators[operator as 'eq'], attributeType);
+    switch (operator) {
+      case 'eq':
+        tests.push((value) => value === expected);
+        break;
+      case 'ne':
+        tests.push((value) => value !== expected);
+        break;
+      case 'gt':
+        tests.push((value) => value !== null && expected !== null && value > expected);
+        break;
+      case 'gte':
+        tests.push((value) => value !== null && expected !== null && value >= expected);
+        break;
+      case 'lt':
+        tests.push((value) => value !== null && expected !== null && value < expected);
+        break;
+      case 'lte':
+        tests.push((value) => value !== null && expected !== null && value <= expected);
+        break;
+    }
+  });
+
+  return (identifier) => {
+    const values = valuesOf(store, identifier, steps).map((value) => normalize(value, attributeType));
+    // an empty relationship still has a value to compare, null
+    if (!values.length) {
+      values.push(null);
+    }
+    return values.some((value) => tests.every((test) => test(value)));
+  };
+}
+
+function comparatorFor(store: Store, modelName: string, sort: string) {
+  const descending = sort.charAt(0) === '-';
+  const { steps, attributeType } = fieldFor(store, modelName, descending ? sort.slice(1) : sort);
+  const direction = descending ? -1 : 1;
+  const valueOf = (identifier: StableRecordIdentifier) => {
+    const value = valuesOf(store, identifier, steps)[0];
+    return normalize(value, attributeType);
+  };
+
+  return (a: StableRecordIdentifier, b: StableRecordIdentifier): number => {
+    const left = valueOf(a);
+    const right = valueOf(b);
+    if (left === right) {
+      return 0;
+    }
+    // records without a value come last in either direction
+    if (left === null) {
+      return 1;
+    }
+    if (right === null) {
+      return -1;
+    }
+    return (left < right ? -1 : 1) * direction;
+  };
+}
+
+/**
+  Evaluates a local query against the loaded records of a type, returning
+  the identifiers of the records that match in the order the query asks for.
+
+  @method peekQuery
+  @internal
+*/
+export default function peekQuery(store: Store, modelName: string, query: LocalQuery): StableRecordIdentifier[] {
+  const cache = store._instanceCache;
+  const list = cache.peekList[modelName];
+  let identifiers = list ? [...list.values()].filter((identifier) => cache.recordIsLoaded(identifier, true)) : [];
+
+  const { where } = query;
+  if (where) {
+    const conditions = Object.keys(where).map((path) => conditionFor(store, modelName, path, where[path]));
+    identifiers = identifiers.filter((identifier) => conditions.every((condition) => condition(identifier)));
+  }
+
+  if (query.sort) {
+    const comparators = (Array.isArray(query.sort) ? query.sort : [query.sort]).map((sort) =>
+      comparatorFor(store, modelName, sort)
+    );
+    identifiers.sort((a, b) => {
+      for (let i = 0; i < comparators.length; i++) {
+        const result = comparators[i](a, b);
+        if (result !== 0) {
+          return result;
+        }
+      }
+      return 0;
+    });
+  }
+
+  const offset = query.offset || 0;
+  const end = typeof query.limit === 'number' ? offset + query.limit : undefined;
+  return identifiers.slice(offset, end);
+}
@@ -0,0 +1,252 @@
+/**
+ * @module @ember-data/store
+ */
+import { assert, warn } from '@ember/debug';
+
+import { all, reject, resolve } from 'rsvp';
+
+import type { StableRecordIdentifier } from '@ember-data/types/q/identifier';
+import type {
+  PersistentCacheOptions,
+  PersistentCacheTypeOptions,
+  PersistentStorage,
+} from '@ember-data/types/q/persistent-storage';
+import type { JsonApiResource } from '@ember-data/types/q/record-data-json-api';
+import type { Dict } from '@ember-data/types/q/utils';
+
+import type Store from '../store-service';
+
+interface PersistedRecord {
+  cachedAt: number;
+  resource: JsonApiResource;
+}
+
+// the persisted form of a single type
+interface PersistedType {
+  schema: string;
+  // [id, lid] pairs, restoring the lid of every record we knew about
+  identifiers: [string, string][];
+  records: PersistedRecord[];
+}
+
+const DEFAULT_KEY = 'ember-data:cache';
+
+// djb2, we only need to detect change, not resist collisions
+function hashString(str: string): string {
+  let hash = 5381;
+  for (let i = 0; i < str.length; i++) {
+    hash = ((hash << 5) + hash + str.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16);
+}
+
+/**
+ * Persists the remote state of opted-in types to a storage backend
+ * and rehydrates it into the store on boot.
+ *
+ * @class PersistentCache
+ * @internal
+ */
+export default class PersistentCache {
+  declare _store: Store;
+  declare _storage: PersistentStorage;
+  declare _key: string;
+  declare _version: string;
+  declare _types: Dict<PersistentCacheTypeOptions>;
+  declare _hydratedAt: WeakMap<StableRecordIdentifier, number>;
+  declare _onHide: (event: Event) => void;
+  declare isDestroyed: boolean;
+
+  constructor(store: Store, options: PersistentCacheOptions) {
+    assert(`You must provide a storage backend to enable the persistent cache`, options && options.storage);
+    assert(`You must specify which types to persist`, options.types);
+    this._store = store;
+    this._storage = options.storage;
+    this._key = options.key || DEFAULT_KEY;
+    this._version = options.version || '';
+    this._hydratedAt = new WeakMap();
+    this.isDestroyed = false;
+
+    const types = Object.create(null) as Dict<PersistentCacheTypeOptions>;
+    const defaults: PersistentCacheTypeOptions = { ttl: options.ttl };
+    const optedIn = options.types;
+    if (Array.isArray(optedIn)) {
+      optedIn.forEach((type) => (types[type] = defaults));
+    } else {
+      Object.keys(optedIn).forEach((type) => {
+        const typeOptions = optedIn[type];
+        types[type] = typeOptions === true ? defaults : Object.assign({}, defaults, typeOptions);
+      });
+    }
+    Object.keys(types).forEach((type) => {
+      assert(
+        `Cannot persist the type '${type}' as no schema exists for it`,
+        store.getSchemaDefinitionService().doesTypeExist(type)
+      );
+    });
+    this._types = types;
+
+    // pages may be closed at any time after being hidden, so
+    // this is our last reliable chance to persist
+    this._onHide = (event: Event) => {
+      if (event.type === 'pagehide' || document.visibilityState === 'hidden') {
+        let persisted: Promise<void>;
+        try {
+          persisted = this.persist();
+        } catch (error) {
+          persisted = reject(error);
+        }
+        // there is no caller left to report to, storage may be full
+        persisted.catch((error: Error) => {
+          warn(`Unable to persist the cache: ${error && error.message}`, false, {
+            id: 'ds.persistent-cache.persist-failed',
+          });
+        });
+      }
+    };
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', this._onHide);
+      window.addEventListener('visibilitychange', this._onHide);
+    }
+  }
+
+  _keyFor(type: string): string {
+    return `${this._key}:${type}`;
+  }
+
+  /**
+   * A hash of the attributes and relationships of a type, used to
+   * discard persisted data whose schema no longer matches.
+   *
+   * @internal
+   */
+  schemaHash(type: string): string {
+    const schema = this._store.getSchemaDefinitionService();
+    const attributes = schema.attributesDefinitionFor({ type });
+    const relationships = schema.relationshipsDefinitionFor({ type });
+
+    const parts = Object.keys(attributes)
+      .sort()
+      .map((name) => `${name}:${attributes[name]!.type}`);
+    Object.keys(relationships)
+      .sort()
+      .forEach((name) => {
+        const relationship = relationships[name]!;
+        parts.push(`${name}:${relationship.kind}:${relationship.type}`);
+      });
+
+    return hashString(`${this._version}|${type}|${parts.join(',')}`);
+  }
+
+  /**
+   * Pushes persisted records into the store, skipping any which have
+   * expired, whose schema has changed, or which are already loaded.
+   *
+   * @internal
+   */
+  hydrate(): Promise<void> {
+    const types = Object.keys(this._types);
+
+    return all(types.map((type) => resolve(this._storage.getItem(this._keyFor(type))))).then((entries) => {
+      if (this.isDestroyed) {
+        return;
+      }
+      const store = this._store;
+      const cache = store.identifierCache;
+      const now = Date.now();
+      const data: JsonApiResource[] = [];
+      const hydrated: { lid: string; cachedAt: number }[] = [];
+
+      for (let i = 0; i < types.length; i++) {
+        const type = types[i];
+        const entry = entries[i] as PersistedType | null;
+        if (!entry) {
+          continue;
+        }
+        if (entry.schema !== this.schemaHash(type)) {
+          void resolve(this._storage.removeItem(this._keyFor(type)));
+          continue;
+        }
+
+        entry.identifiers.forEach(([id, lid]) => cache.getOrCreateRecordIdentifier({ type, id, lid }));
+
+        const { ttl } = this._types[type]!;
+        entry.records.forEach(({ cachedAt, resource }) => {
+          if (typeof ttl === 'number' && now - cachedAt > ttl) {
+            return;
+          }
+          const identifier = cache.peekRecordIdentifier({ lid: resource.lid! });
+          if (identifier && store._instanceCache.recordIsLoaded(identifier)) {
+            return;
+          }
+          data.push(resource);
+          hydrated.push({ lid: resource.lid!, cachedAt });
+        });
+      }
+
+      if (data.length) {
+        store._push({ data });
+        hydrated.forEach(({ lid, cachedAt }) => {
+          this._hydratedAt.set(cache.peekRecordIdentifier({ lid })!, cachedAt);
+        });
+      }
+    });
+  }
+
+  /**
+   * Writes the remote state of every loaded record of an opted-in
+   * type to storage. New, deleted and unloaded records are skipped.
+   *
+   * @internal
+   */
+  persist(): Promise<void> {
+    if (this.isDestroyed) {
+      return resolve();
+    }
+    const store = this._store;
+    const instances = store._instanceCache;
+    const requests = store.getRequestStateService();
+    const now = Date.now();
+
+    const writes = Object.keys(this._types).map((type) => {
+      const list = instances.peekList[type];
+      const identifiers: [string, string][] = [];
+      const records: PersistedRecord[] = [];
+
+      if (list) {
+        list.forEach((identifier) => {
+          if (identifier.id === null) {
+            return;
+          }
+          identifiers.push([identifier.id, identifier.lid]);
+          if (!instances.recordIsLoaded(identifier, true)) {
+            return;
+          }
+          const recordData = instances.peek({ identifier, bucket: 'recordData' });
+          const resource = recordData && recordData.getRemoteResource ? recordData.getRemoteResource() : null;
+          if (!resource) {
+            return;
+          }
+          // records we hydrated keep their original age until refetched
+          const hydratedAt = this._hydratedAt.get(identifier);
+          const cachedAt =
+            hydratedAt !== undefined && requests.getLastRequestForRecord(identifier) === null ? hydratedAt : now;
+          records.push({ cachedAt, resource });
+        });
+      }
+
+      const entry: PersistedType = { schema: this.schemaHash(type), identifiers, records };
+      return resolve(this._storage.setItem(this._keyFor(type), entry));
+    });
+
+    return all(writes).then(() => {});
+  }
+
+  destroy() {
+    this.isDestroyed = true;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this._onHide);
+      window.removeEventListener('visibilitychange', this._onHide);
+    }
+  }
+}
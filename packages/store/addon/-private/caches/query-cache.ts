@@ -0,0 +1,68 @@
+/**
+ * @module @ember-data/store
+ */
+import type { Dict } from '@ember-data/types/q/utils';
+
+import type AdapterPopulatedRecordArray from '../record-arrays/adapter-populated-record-array';
+
+interface CachedQuery {
+  query: Dict<unknown>;
+  recordArray: AdapterPopulatedRecordArray;
+}
+
+/**
+ * Holds the record arrays populated by `store.query` calls made with
+ * `{ cache: true }`, by type and normalized query.
+ *
+ * @class QueryCache
+ * @internal
+ */
+export default class QueryCache {
+  declare _queries: Dict<Map<string, CachedQuery>>;
+
+  constructor() {
+    this._queries = Object.create(null) as Dict<Map<string, CachedQuery>>;
+  }
+
+  get(modelName: string, key: string): AdapterPopulatedRecordArray | null {
+    const cached = this._queries[modelName]?.get(key);
+    if (!cached) {
+      return null;
+    }
+    const { recordArray } = cached;
+    if (recordArray.isDestroyed || recordArray.isDestroying) {
+      this._queries[modelName]!.delete(key);
+      return null;
+    }
+    return recordArray;
+  }
+
+  set(modelName: string, key: string, query: Dict<unknown>, recordArray: AdapterPopulatedRecordArray) {
+    let queries = this._queries[modelName];
+    if (!queries) {
+      queries = this._queries[modelName] = new Map();
+    }
+    queries.set(key, { query, recordArray });
+  }
+
+  /**
+   * Removes the cached queries of a type for which `predicate`
+   * returns `true`, or all of them if no predicate is given.
+   *
+   * @internal
+   */
+  invalidate(modelName: string, predicate?: (query: Dict<unknown>) => boolean): number {
+    const queries = this._queries[modelName];
+    if (!queries) {
+      return 0;
+    }
+    let count = 0;
+    queries.forEach((cached, key) => {
+      if (!predicate || predicate(cached.query)) {
+        queries.delete(key);
+        count++;
+      }
+    });
+    return count;
+  }
+}
@@ -13,6 +13,9 @@ export { default as Store, storeFor } from './store-service';
 export { recordIdentifierFor } from './caches/instance-cache';
 
 export { default as Snapshot } from './network/snapshot';
+export { dedupe, dedupeKey } from './network/dedupe';
+export { trackRequest } from './network/finders';
+export { setResponseInfo, getResponseInfo } from './network/response-info';
 export {
   setIdentifierGenerationMethod,
   setIdentifierUpdateMethod,
@@ -43,6 +46,7 @@ export { PromiseArray, PromiseObject, deprecatedPromiseObject } from './proxies/
 
 export { default as RecordArray } from './record-arrays/record-array';
 export { default as AdapterPopulatedRecordArray } from './record-arrays/adapter-populated-record-array';
+export { default as FilteredRecordArray } from './record-arrays/filtered-record-array';
 
 export { default as RecordArrayManager } from './managers/record-array-manager';
 
@@ -54,3 +58,10 @@ export { default as recordDataFor, removeRecordDataFor } from './caches/record-d
 export { default as RecordDataStoreWrapper } from './managers/record-data-store-wrapper';
 
 export { default as WeakCache } from './utils/weak-cache';
+
+export { default as MemoryStorage } from './storage/memory-storage';
+export { default as WebStorage } from './storage/web-storage';
+export { default as IndexedDBStorage } from './storage/indexeddb-storage';
+
+export { default as LocalEventSource } from './network/local-event-source';
+export { default as Transaction } from './network/transaction';
@@ -9,12 +9,15 @@ import { DEBUG } from '@glimmer/env';
 
 import type { CollectionResourceDocument, Meta } from '@ember-data/types/q/ember-data-json-api';
 import type { StableRecordIdentifier } from '@ember-data/types/q/identifier';
+import type { FilterOptions } from '@ember-data/types/q/store';
 import type { Dict } from '@ember-data/types/q/utils';
 
 import AdapterPopulatedRecordArray from '../record-arrays/adapter-populated-record-array';
+import FilteredRecordArray from '../record-arrays/filtered-record-array';
 import RecordArray from '../record-arrays/record-array';
 import type Store from '../store-service';
 import WeakCache from '../utils/weak-cache';
+import type { NotificationType } from './record-notification-manager';
 
 const RecordArraysCache = new WeakCache<StableRecordIdentifier, Set<RecordArray>>(DEBUG ? 'record-arrays' : '');
 RecordArraysCache._generator = () => new Set();
@@ -35,6 +38,7 @@ class RecordArrayManager {
   declare _liveRecordArrays: Dict<RecordArray>;
   declare _pendingIdentifiers: Dict<StableRecordIdentifier[]>;
   declare _adapterPopulatedRecordArrays: RecordArray[];
+  declare _filteredRecordArrays: Dict<FilteredRecordArray[]>;
 
   constructor(options: { store: Store }) {
     this.store = options.store;
@@ -43,6 +47,7 @@ class RecordArrayManager {
     this._liveRecordArrays = Object.create(null) as Dict<RecordArray>;
     this._pendingIdentifiers = Object.create(null) as Dict<StableRecordIdentifier[]>;
     this._adapterPopulatedRecordArrays = [];
+    this._filteredRecordArrays = Object.create(null) as Dict<FilteredRecordArray[]>;
   }
 
   /**
@@ -80,6 +85,11 @@ class RecordArrayManager {
       updateLiveRecordArray(this.store, array, identifiers);
     }
 
+    let filtered = this._filteredRecordArrays[modelName];
+    if (filtered) {
+      filtered.forEach((filteredArray) => filteredArray._evaluate(identifiers));
+    }
+
     // process adapterPopulatedRecordArrays
     if (identifiersToRemove.length > 0) {
       removeFromAdapterPopulatedRecordArrays(this.store, identifiersToRemove);
@@ -236,7 +246,7 @@ class RecordArrayManager {
   createAdapterPopulatedRecordArray(
     modelName: string,
     query: Dict<unknown> | undefined,
-    identifiers: StableRecordIdentifier[],
+    identifiers?: StableRecordIdentifier[],
     payload?: CollectionResourceDocument
   ): AdapterPopulatedRecordArray {
     assert(
@@ -278,6 +288,35 @@ class RecordArrayManager {
     return array;
   }
 
+  /**
+    Create a `FilteredRecordArray` for a modelName, populated with the
+    loaded records that match.
+
+    @method createFilteredRecordArray
+    @internal
+    @param {String} modelName
+    @param {Object} options
+    @return {FilteredRecordArray}
+  */
+  createFilteredRecordArray(modelName: string, options: FilterOptions): FilteredRecordArray {
+    let array = FilteredRecordArray.create({
+      modelName,
+      content: A<StableRecordIdentifier>(),
+      store: this.store,
+      isLoaded: true,
+      manager: this,
+      where: options.where,
+      sort: options.sort,
+      dependentKeys: options.dependentKeys,
+    });
+    array._evaluate(this._visibleIdentifiersByType(modelName));
+
+    let filtered = (this._filteredRecordArrays[modelName] = this._filteredRecordArrays[modelName] || []);
+    filtered.push(array);
+
+    return array;
+  }
+
   /**
     Unregister a RecordArray.
     So manager will not update this array.
@@ -291,8 +330,10 @@ class RecordArrayManager {
 
     // remove from adapter populated record array
     let removedFromAdapterPopulated = removeFromArray(this._adapterPopulatedRecordArrays, array);
+    let filtered = this._filteredRecordArrays[modelName];
+    let removedFromFiltered = !!filtered && removeFromArray(filtered, array);
 
-    if (!removedFromAdapterPopulated) {
+    if (!removedFromAdapterPopulated && !removedFromFiltered) {
       let liveRecordArrayForType = this._liveRecordArrays[modelName];
       // unregister live record array
       if (liveRecordArrayForType) {
@@ -344,8 +385,25 @@ class RecordArrayManager {
     emberBackburner.schedule('actions', this, this._flush);
   }
 
+  /**
+    Queues a record to be evaluated again by the filtered record arrays
+    of its type that depend on the field that changed.
+
+    @method fieldDidChange
+    @internal
+  */
+  fieldDidChange(identifier: StableRecordIdentifier, type: NotificationType, key?: string): void {
+    let filtered = this._filteredRecordArrays[identifier.type];
+    if (filtered && filtered.some((array) => array._dependsOn(type, key))) {
+      this.recordDidChange(identifier);
+    }
+  }
+
   willDestroy() {
     Object.keys(this._liveRecordArrays).forEach((modelName) => this._liveRecordArrays[modelName]!.destroy());
+    Object.keys(this._filteredRecordArrays).forEach((modelName) =>
+      this._filteredRecordArrays[modelName]!.slice().forEach((array) => array.destroy())
+    );
     this._adapterPopulatedRecordArrays.forEach((entry) => entry.destroy());
     this.isDestroyed = true;
   }
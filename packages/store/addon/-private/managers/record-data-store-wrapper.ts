@@ -1,6 +1,6 @@
 import type { RelationshipDefinition } from '@ember-data/model/-private/relationship-meta';
 import type { StableRecordIdentifier } from '@ember-data/types/q/identifier';
-import type { RecordData } from '@ember-data/types/q/record-data';
+import type { MergeStrategy, RecordData } from '@ember-data/types/q/record-data';
 import type {
   AttributesSchema,
   RelationshipSchema,
@@ -63,6 +63,15 @@ export default class RecordDataStoreWrapper implements StoreWrapper {
     this._store._notificationManager.notify(identifier, 'errors');
   }
 
+  notifyConflictsChange(type: string, id: string, lid: string | null): void;
+  notifyConflictsChange(type: string, id: string | null, lid: string): void;
+  notifyConflictsChange(type: string, id: string | null, lid: string | null): void {
+    const resource = constructResource(type, id, lid);
+    const identifier = this.identifierCache.getOrCreateRecordIdentifier(resource);
+
+    this._store._notificationManager.notify(identifier, 'conflicts');
+  }
+
   _flushNotifications(): void {
     if (this._willNotify === false) {
       return;
@@ -87,6 +96,10 @@ export default class RecordDataStoreWrapper implements StoreWrapper {
     return this._store.getSchemaDefinitionService().relationshipsDefinitionFor({ type });
   }
 
+  mergeStrategyFor(type: string): MergeStrategy {
+    return this._store._mergeStrategies[type] || 'local-wins';
+  }
+
   inverseForRelationship(type: string, key: string): string | null {
     const modelClass = this._store.modelFor(type);
     const definition = this.relationshipsDefinitionFor(type)[key];
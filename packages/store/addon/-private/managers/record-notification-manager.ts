@@ -24,6 +24,7 @@ export type NotificationType =
   | 'meta'
   | 'unload'
   | 'state'
+  | 'conflicts'
   | 'property'; // 'property' is an internal EmberData only transition period concept.
 
 export interface NotificationCallback {
@@ -32,7 +33,10 @@ export interface NotificationCallback {
     notificationType: 'attributes' | 'relationships' | 'property',
     key?: string
   ): void;
-  (identifier: StableRecordIdentifier, notificationType: 'errors' | 'meta' | 'identity' | 'unload' | 'state'): void;
+  (
+    identifier: StableRecordIdentifier,
+    notificationType: 'errors' | 'meta' | 'identity' | 'unload' | 'state' | 'conflicts'
+  ): void;
   (identifier: StableRecordIdentifier, notificationType: NotificationType, key?: string): void;
 }
 
@@ -65,7 +69,10 @@ export default class NotificationManager {
   }
 
   notify(identifier: StableRecordIdentifier, value: 'attributes' | 'relationships' | 'property', key?: string): boolean;
-  notify(identifier: StableRecordIdentifier, value: 'errors' | 'meta' | 'identity' | 'unload' | 'state'): boolean;
+  notify(
+    identifier: StableRecordIdentifier,
+    value: 'errors' | 'meta' | 'identity' | 'unload' | 'state' | 'conflicts'
+  ): boolean;
   notify(identifier: StableRecordIdentifier, value: NotificationType, key?: string): boolean {
     if (!isStableIdentifier(identifier)) {
       if (LOG_NOTIFICATIONS) {
@@ -84,6 +91,13 @@ export default class NotificationManager {
       // eslint-disable-next-line no-console
       console.log(`Notifying: ${String(identifier)}\t${value}\t${key}`);
     }
+    this.store.notifications._enqueue(identifier, value, key);
+    if (value === 'attributes' || value === 'relationships') {
+      this.store.recordArrayManager.fieldDidChange(identifier, value, key);
+    }
+    if (value === 'attributes') {
+      this.store._indexCache.attributeDidChange(identifier, key);
+    }
     let callbackMap = Cache.get(identifier);
     if (!callbackMap || !callbackMap.size) {
       return false;
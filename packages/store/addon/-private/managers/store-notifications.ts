@@ -0,0 +1,150 @@
+/**
+ * @module @ember-data/store
+ */
+import { assert } from '@ember/debug';
+
+import type { StableRecordIdentifier } from '@ember-data/types/q/identifier';
+
+import { isStableIdentifier } from '../caches/identifier-cache';
+import type Store from '../store-service';
+import normalizeModelName from '../utils/normalize-model-name';
+import type { NotificationType } from './record-notification-manager';
+
+export interface StoreNotification {
+  identifier: StableRecordIdentifier;
+  type: NotificationType;
+  key?: string;
+}
+
+// a record, every record of a type, or every record
+export type NotificationFilter = StableRecordIdentifier | string;
+
+export type NotificationsCallback = (notifications: StoreNotification[]) => void;
+
+type SubscriptionToken = object;
+
+interface Subscription {
+  token: SubscriptionToken;
+  filter: NotificationFilter;
+  callback: NotificationsCallback;
+}
+
+function matches(filter: NotificationFilter, notification: StoreNotification): boolean {
+  if (typeof filter === 'string') {
+    return filter === 'all' || filter === notification.identifier.type;
+  }
+  return filter === notification.identifier;
+}
+
+/**
+ * Delivers the changes the store makes to records to subscribers,
+ * batched so that each subscriber is called at most once per runloop.
+ *
+ * Available as `store.notifications`.
+ *
+ * ```js
+ * const token = store.notifications.subscribe('post', (notifications) => {
+ *   notifications.forEach(({ identifier, type, key }) => {
+ *     console.log(`${identifier.lid} ${type} ${key || ''}`);
+ *   });
+ * });
+ *
+ * store.notifications.unsubscribe(token);
+ * ```
+ *
+ * @class StoreNotifications
+ * @public
+ */
+export default class StoreNotifications {
+  declare _store: Store;
+  declare _subscriptions: Subscription[];
+  declare _pending: StoreNotification[];
+  declare _seen: Set<string>;
+  declare _willFlush: boolean;
+
+  constructor(store: Store) {
+    this._store = store;
+    this._subscriptions = [];
+    this._pending = [];
+    this._seen = new Set();
+    this._willFlush = false;
+  }
+
+  /**
+    Subscribes to the notifications for a record, given its identifier,
+    for every record of a type, given the model name, or for every record,
+    given `'all'`.
+
+    The callback receives the notifications of each runloop as an array
+    of `{ identifier, type, key }`, in the order they were sent, with
+    duplicates removed. `type` is one of `'attributes'`, `'relationships'`,
+    `'identity'`, `'errors'`, `'meta'`, `'unload'`, `'state'` or
+    `'conflicts'`, and `key` names the changed field when there is one.
+
+    @method subscribe
+    @public
+    @param {StableRecordIdentifier|String} filter
+    @param {Function} callback
+    @return {Object} a token to pass to `unsubscribe`
+  */
+  subscribe(filter: NotificationFilter, callback: NotificationsCallback): SubscriptionToken {
+    assert(
+      `Expected to receive a stable identifier, a model name or 'all' to subscribe to`,
+      typeof filter === 'string' || isStableIdentifier(filter)
+    );
+    const token = {};
+    this._subscriptions.push({
+      token,
+      filter: typeof filter === 'string' && filter !== 'all' ? normalizeModelName(filter) : filter,
+      callback,
+    });
+    return token;
+  }
+
+  /**
+    @method unsubscribe
+    @public
+    @param {Object} token the token returned by `subscribe`
+  */
+  unsubscribe(token: SubscriptionToken): void {
+    this._subscriptions = this._subscriptions.filter((subscription) => subscription.token !== token);
+  }
+
+  _enqueue(identifier: StableRecordIdentifier, type: NotificationType, key?: string): void {
+    // 'property' is an internal transition period concept
+    if (!this._subscriptions.length || type === 'property') {
+      return;
+    }
+    const id = `${identifier.lid}:${type}:${key || ''}`;
+    if (this._seen.has(id)) {
+      return;
+    }
+    this._seen.add(id);
+    this._pending.push(key === undefined ? { identifier, type } : { identifier, type, key });
+
+    if (this._willFlush) {
+      return;
+    }
+    this._willFlush = true;
+    this._store._backburner.schedule('notify', this, '_flush');
+  }
+
+  _flush(): void {
+    const pending = this._pending;
+    this._pending = [];
+    this._seen = new Set();
+    this._willFlush = false;
+
+    this._subscriptions.slice().forEach((subscription) => {
+      const { filter, callback } = subscription;
+      // an earlier callback may have unsubscribed it
+      if (this._subscriptions.indexOf(subscription) === -1) {
+        return;
+      }
+      const notifications = pending.filter((notification) => matches(filter, notification));
+      if (notifications.length) {
+        callback(notifications);
+      }
+    });
+  }
+}
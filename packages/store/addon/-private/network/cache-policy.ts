@@ -0,0 +1,65 @@
+/**
+ * @module @ember-data/store
+ */
+import type { CachePolicy, CacheStatus } from '@ember-data/types/q/fetch-manager';
+
+import { normalizeQuery } from './dedupe';
+
+/**
+ * The key under which the fetch time of a query's results is tracked.
+ *
+ * @internal
+ */
+export function queryCacheKey(op: 'query' | 'queryRecord' | 'findAll', modelName: string, query?: unknown): string {
+  return query === undefined ? `${op}:${modelName}` : `${op}:${modelName}:${normalizeQuery(query)}`;
+}
+
+/**
+ * Where data fetched at `fetchedAt` sits within a cache policy, or
+ * `null` when there is no policy or we do not know when the data was
+ * fetched, in which case the adapter's reload hooks decide.
+ *
+ * @internal
+ */
+export function cacheStatus(
+  policy: CachePolicy | undefined,
+  fetchedAt: number | null,
+  now: number = Date.now()
+): CacheStatus | null {
+  if (!policy || fetchedAt === null) {
+    return null;
+  }
+  const age = now - fetchedAt;
+  const maxAge = policy.maxAge || 0;
+
+  if (age <= maxAge) {
+    return 'fresh';
+  }
+  if (age <= maxAge + (policy.staleWhileRevalidate || 0)) {
+    return 'stale';
+  }
+  return 'expired';
+}
+
+/**
+ * Resolves with `fallback` when `promise` rejects while data fetched
+ * at `fetchedAt` is still within the policy's `staleIfError` window.
+ *
+ * @internal
+ */
+export function withStaleIfError<T>(
+  promise: Promise<T>,
+  policy: CachePolicy,
+  fetchedAt: number,
+  fallback: T
+): Promise<T> {
+  if (!policy.staleIfError) {
+    return promise;
+  }
+  return promise.catch((error) => {
+    if (Date.now() - fetchedAt <= (policy.maxAge || 0) + policy.staleIfError!) {
+      return fallback;
+    }
+    throw error;
+  });
+}
@@ -0,0 +1,89 @@
+/**
+ * @module @ember-data/store
+ */
+import type { FindOptions } from '@ember-data/types/q/store';
+
+import type Store from '../store-service';
+
+function isPlainObject(obj: unknown): obj is Record<string, unknown> {
+  return Object.prototype.toString.call(obj) === '[object Object]';
+}
+
+// mirrors the encoding of the adapter's serializeQueryParams, but with
+// keys sorted so that the order a query was written in does not matter
+function buildParams(prefix: string, value: unknown, params: string[]) {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => {
+      buildParams(`${prefix}[${typeof item === 'object' && item !== null ? i : ''}]`, item, params);
+    });
+  } else if (isPlainObject(value)) {
+    Object.keys(value)
+      .sort()
+      .forEach((key) => buildParams(prefix ? `${prefix}[${key}]` : key, value[key], params));
+  } else if (value !== undefined) {
+    params.push(`${encodeURIComponent(prefix)}=${encodeURIComponent(value === null ? '' : String(value))}`);
+  }
+}
+
+/**
+ * Serializes a query into a string which is identical for any two
+ * queries that would produce the same request.
+ *
+ * @internal
+ */
+export function normalizeQuery(query: unknown): string {
+  if (typeof query === 'string') {
+    return query;
+  }
+  let params: string[] = [];
+  buildParams('', query, params);
+  return params.join('&');
+}
+
+/**
+ * Builds the key under which a request is deduplicated, or returns
+ * `null` if the request should not be shared with other callers.
+ *
+ * Requests which pass `dedupe: false` opt out, as do requests with an
+ * `AbortSignal`, since aborting a shared request would abort it for
+ * every caller.
+ *
+ * @internal
+ */
+export function dedupeKey(parts: unknown[], options?: FindOptions | null): string | null {
+  if (options && (options.dedupe === false || options.signal)) {
+    return null;
+  }
+  let key = parts.map(normalizeQuery).join('::');
+  if (options && options.adapterOptions) {
+    key += `::${normalizeQuery(options.adapterOptions)}`;
+  }
+  return key;
+}
+
+/**
+ * Returns the in-flight promise for `key` if one exists, else
+ * calls `fn` and shares the promise it returns until it settles.
+ *
+ * @internal
+ */
+export function dedupe<T>(store: Store, key: string | null, fn: () => Promise<T>): Promise<T> {
+  if (key === null) {
+    return fn();
+  }
+  const inFlight = store._fetchManager._inFlightRequests;
+  let promise = inFlight.get(key) as Promise<T> | undefined;
+
+  if (!promise) {
+    promise = fn();
+    inFlight.set(key, promise);
+    const clear = () => {
+      if (inFlight.get(key) === promise) {
+        inFlight.delete(key);
+      }
+    };
+    promise.then(clear, clear);
+  }
+
+  return promise;
+}
@@ -5,17 +5,29 @@ import { assert, deprecate, warn } from '@ember/debug';
 import { _backburner as emberBackburner } from '@ember/runloop';
 import { DEBUG } from '@glimmer/env';
 
-import { default as RSVP, resolve } from 'rsvp';
+import { default as RSVP } from 'rsvp';
 
 import { DEPRECATE_RSVP_PROMISE } from '@ember-data/private-build-infra/deprecations';
 import type { CollectionResourceDocument, SingleResourceDocument } from '@ember-data/types/q/ember-data-json-api';
-import type { FindRecordQuery, Request, SaveRecordMutation } from '@ember-data/types/q/fetch-manager';
+import type {
+  FindRecordQuery,
+  OfflineQueueOptions,
+  Request,
+  ResponseInfo,
+  SaveConflict,
+  SaveOperation,
+  SaveRecordMutation,
+} from '@ember-data/types/q/fetch-manager';
 import type {
   RecordIdentifier,
   StableExistingRecordIdentifier,
   StableRecordIdentifier,
 } from '@ember-data/types/q/identifier';
+import type { AdapterPayload } from '@ember-data/types/q/minimum-adapter-interface';
 import type { MinimumSerializerInterface } from '@ember-data/types/q/minimum-serializer-interface';
+import type { JsonApiValidationError } from '@ember-data/types/q/record-data-json-api';
+import type { RecordInstance } from '@ember-data/types/q/record-instance';
+import type { RequestContext } from '@ember-data/types/q/request-manager';
 import type { FindOptions } from '@ember-data/types/q/store';
 import type { Dict } from '@ember-data/types/q/utils';
 
@@ -25,7 +37,11 @@ import coerceId from '../utils/coerce-id';
 import { _bind, _guard, _objectIsAlive, guardDestroyedStore } from '../utils/common';
 import { normalizeResponseHelper } from '../utils/serializer-response';
 import WeakCache from '../utils/weak-cache';
+import { trackRequest } from './finders';
+import OfflineQueue from './offline-queue';
 import RequestCache from './request-cache';
+import { getResponseInfo } from './response-info';
+import { requestWithRetry } from './retry';
 import Snapshot from './snapshot';
 
 function payloadIsNotBlank(adapterPayload): boolean {
@@ -37,13 +53,90 @@ function payloadIsNotBlank(adapterPayload): boolean {
 }
 
 type AdapterErrors = Error & { errors?: string[]; isAdapterError?: true };
+type ConflictError = AdapterErrors & {
+  code: 'ConflictError';
+  payload?: unknown;
+  conflict?: SaveConflict;
+  conflicts?: SaveConflict[];
+};
+
+function isConflictError(error: unknown): error is ConflictError {
+  return (
+    !!error && (error as AdapterErrors).isAdapterError === true && (error as ConflictError).code === 'ConflictError'
+  );
+}
+
+function etagFor(info: ResponseInfo | null): string | null {
+  const headers = info && info.headers;
+  if (headers) {
+    const key = Object.keys(headers).find((name) => name.toLowerCase() === 'etag');
+    if (key && typeof headers[key] === 'string') {
+      return headers[key] as string;
+    }
+  }
+  return null;
+}
+/*
+  The error with which the save of the record at `index` of a batch is
+  rejected: a copy of the batch's error holding the errors whose pointer
+  refers to that record, e.g. `/data/1/attributes/body`, rebased onto the
+  record's document, and the errors without a pointer. When no error points
+  to a record of the batch the error is passed on unchanged.
+*/
+const BATCH_ITEM_POINTER = /^\/data\/(\d+)(\/.*)?$/;
+
+function pointerOf(item: JsonApiValidationError | undefined): string | null {
+  const pointer = item && item.source && item.source.pointer;
+  return typeof pointer === 'string' ? pointer : null;
+}
+
+function errorForBatchItem(error: unknown, index: number): unknown {
+  const errors = error && (error as { errors?: unknown }).errors;
+  if (!Array.isArray(errors)) {
+    return error;
+  }
+  const items = errors as JsonApiValidationError[];
+  if (!items.some((item) => BATCH_ITEM_POINTER.test(pointerOf(item) || ''))) {
+    return error;
+  }
+  const itemErrors: JsonApiValidationError[] = [];
+  items.forEach((item) => {
+    const pointer = pointerOf(item);
+    if (pointer === null) {
+      itemErrors.push(item);
+      return;
+    }
+    const match = BATCH_ITEM_POINTER.exec(pointer);
+    if (match && Number(match[1]) === index) {
+      itemErrors.push(Object.assign({}, item, { source: { pointer: `/data${match[2] || ''}` } }));
+    }
+  });
+  const copy = Object.create(Object.getPrototypeOf(error) as object) as Error & { errors: JsonApiValidationError[] };
+  Object.defineProperties(copy, Object.getOwnPropertyDescriptors(error));
+  copy.errors = itemErrors;
+  return copy;
+}
+
 type SerializerWithParseErrors = MinimumSerializerInterface & {
   extractErrors?(store: Store, modelClass: ShimModelClass, error: AdapterErrors, recordId: string | null): any;
 };
 
 export const SaveOp: unique symbol = Symbol('SaveOp');
 
-export type FetchMutationOptions = FindOptions & { [SaveOp]: 'createRecord' | 'deleteRecord' | 'updateRecord' };
+// the adapter hooks which save several records of a type in one request
+const BatchSaveOp = {
+  createRecord: 'createRecords',
+  updateRecord: 'updateRecords',
+  deleteRecord: 'deleteRecords',
+} as const;
+
+// marks a save restored from a previous session's offline queue
+export const OfflineReplay: unique symbol = Symbol('OfflineReplay');
+
+export type FetchMutationOptions = FindOptions & {
+  [SaveOp]: SaveOperation;
+  [OfflineReplay]?: true;
+};
 
 interface PendingFetchItem {
   identifier: StableExistingRecordIdentifier;
@@ -54,7 +147,7 @@ interface PendingFetchItem {
   promise: Promise<StableRecordIdentifier>;
 }
 
-interface PendingSaveItem {
+export interface PendingSaveItem {
   resolver: RSVP.Deferred<any>;
   snapshot: Snapshot;
   identifier: RecordIdentifier;
@@ -75,17 +168,52 @@ export default class FetchManager {
   declare _pendingSave: PendingSaveItem[];
   // fetches pending in the runloop, waiting to be coalesced
   declare _pendingFetch: Map<string, PendingFetchItem[]>;
+  declare _inFlightRequests: Map<string, Promise<unknown>>;
+  declare offlineQueue: OfflineQueue | null;
+  // stops the retries waiting for their next attempt
+  declare _retryWaits: Set<() => void>;
 
   constructor(private _store: Store) {
     // used to keep track of all the find requests that need to be coalesced
     this._pendingFetch = new Map();
+    this._inFlightRequests = new Map();
     this._pendingSave = [];
     this.requestCache = new RequestCache();
+    this.offlineQueue = null;
+    this._retryWaits = new Set();
     this.isDestroyed = false;
   }
 
+  /**
+    Enables queueing of saves made while offline, restoring any
+    saves persisted by a previous session.
+
+    @internal
+  */
+  enableOfflineQueue(options: OfflineQueueOptions): Promise<void> {
+    assert(`Offline mode has already been enabled for this store`, !this.offlineQueue);
+    this.offlineQueue = new OfflineQueue(this._store, this, options);
+    return this.offlineQueue.restore();
+  }
+
   clearEntries(identifier: StableRecordIdentifier) {
-    delete this.requestCache._done[identifier.lid];
+    delete this.requestCache._history[identifier.lid];
+    delete this.requestCache._versions[identifier.lid];
+    delete this.requestCache._fetchedAt[identifier.lid];
+  }
+
+  /**
+    Sends a request through the store's RequestManager, retrying
+    it when the adapter defines a `retryPolicy`.
+
+    @internal
+  */
+  _request(context: RequestContext): Promise<AdapterPayload> {
+    const { retryPolicy } = context.adapter;
+    if (retryPolicy) {
+      return requestWithRetry(this._store, context, retryPolicy, this._retryWaits);
+    }
+    return this._store.requestManager.request(context);
   }
 
   /**
@@ -110,6 +238,8 @@ export default class FetchManager {
     };
 
     let snapshot = new Snapshot(options, identifier, this._store);
+    snapshot.operation = options[SaveOp];
+    snapshot.version = this._store._versionFor(identifier);
     let pendingSaveItem = {
       snapshot: snapshot,
       resolver: resolver,
@@ -126,7 +256,31 @@ export default class FetchManager {
   }
 
   _flushPendingSave(pending: PendingSaveItem) {
-    let { snapshot, resolver, identifier, options } = pending;
+    const queue = this.offlineQueue;
+
+    if (queue && queue.shouldQueue(pending)) {
+      pending.resolver.resolve(queue.enqueue(pending));
+      return;
+    }
+
+    this._resolveSave(pending, this._sendSave(pending));
+  }
+
+  _resolveSave(pending: PendingSaveItem, promise: Promise<any>) {
+    const queue = this.offlineQueue;
+    if (queue) {
+      promise = promise.catch((error) => {
+        if (queue.isOfflineError(error, pending)) {
+          return queue.enqueue(pending);
+        }
+        throw error;
+      });
+    }
+    pending.resolver.resolve(promise);
+  }
+
+  _sendSave(pending: PendingSaveItem): Promise<any> {
+    let { snapshot, identifier, options } = pending;
     let adapter = this._store.adapterFor(identifier.type);
     let operation = options[SaveOp];
 
@@ -141,41 +295,256 @@ export default class FetchManager {
       typeof adapter[operation] === 'function'
     );
 
-    let promise = resolve().then(() => adapter[operation](store, modelClass, snapshot));
+    let promise = this._request({
+      op: operation,
+      store,
+      adapter,
+      modelName,
+      modelClass,
+      snapshot,
+      options,
+      requests: [pending.queryRequest],
+    });
     let serializer: SerializerWithParseErrors | null = store.serializerFor(modelName);
     let label = `DS: Extract and notify about ${operation} completion of ${identifier}`;
 
-    assert(
-      `Your adapter's '${operation}' method must return a value, but it returned 'undefined'`,
-      promise !== undefined
-    );
-
     promise = _guard(guardDestroyedStore(promise, store, label), _bind(_objectIsAlive, record)).then(
       (adapterPayload) => {
-        if (!_objectIsAlive(record)) {
-          if (DEPRECATE_RSVP_PROMISE) {
-            deprecate(
-              `A Promise while saving ${modelName} did not resolve by the time your model was destroyed. This will error in a future release.`,
-              false,
-              {
-                id: 'ember-data:rsvp-unresolved-async',
-                until: '5.0',
-                for: '@ember-data/store',
-                since: {
-                  available: '4.5',
-                  enabled: '4.5',
-                },
-              }
-            );
-          }
-        }
+        this._didSave(snapshot, record, etagFor(getResponseInfo(adapterPayload)));
 
         if (adapterPayload) {
           return normalizeResponseHelper(serializer, store, modelClass, adapterPayload, snapshot.id, operation);
         }
+      },
+      (error) => this._didFailSave(snapshot, error)
+    );
+    return promise;
+  }
+
+  /**
+    Handles the success of the save of a record, however it was sent:
+    records the version the server returned for it.
+
+    @internal
+  */
+  _didSave(snapshot: Snapshot, record: RecordInstance, version: string | null): void {
+    if (snapshot.operation !== 'deleteRecord') {
+      this.requestCache.didReceiveVersion(snapshot.identifier, version);
+    }
+    if (!_objectIsAlive(record)) {
+      if (DEPRECATE_RSVP_PROMISE) {
+        deprecate(
+          `A Promise while saving ${snapshot.modelName} did not resolve by the time your model was destroyed. This will error in a future release.`,
+          false,
+          {
+            id: 'ember-data:rsvp-unresolved-async',
+            until: '5.0',
+            for: '@ember-data/store',
+            since: {
+              available: '4.5',
+              enabled: '4.5',
+            },
+          }
+        );
+      }
+    }
+  }
+
+  /**
+    Handles the failure of the save of a record, however it was sent:
+    describes the conflict when the server rejected it as one.
+
+    @internal
+  */
+  _didFailSave(snapshot: Snapshot, error: unknown): never {
+    if (isConflictError(error)) {
+      error.conflict = this._conflictFor(snapshot, error);
+    }
+    throw error;
+  }
+
+  /**
+    Describes a save rejected because of a conflict with the
+    server's copy of the record.
+
+    @internal
+  */
+  _conflictFor(snapshot: Snapshot, error: ConflictError): SaveConflict {
+    const store = this._store;
+    const { payload } = error;
+    let server: SaveConflict['server'] = null;
+    if (payload && typeof payload === 'object' && !('errors' in payload)) {
+      const document = normalizeResponseHelper(
+        store.serializerFor(snapshot.modelName),
+        store,
+        store.modelFor(snapshot.modelName),
+        payload as AdapterPayload,
+        snapshot.id,
+        'findRecord'
+      );
+      if (document.data && !Array.isArray(document.data)) {
+        server = document.data;
+      }
+    }
+    return {
+      identifier: snapshot.identifier,
+      version: snapshot.version,
+      local: {
+        attributes: snapshot.changedAttributes(),
+        relationships: snapshot.changedRelationships(),
+      },
+      server,
+    };
+  }
+
+  /**
+    Sends saves of the same type and operation to the adapter's
+    `createRecords`, `updateRecords` or `deleteRecords` hook as a
+    single request, matching the records of the normalized response
+    to the saves in order.
+
+    @internal
+  */
+  _sendSaves(pendings: PendingSaveItem[]) {
+    const store = this._store;
+    const { type } = pendings[0].identifier;
+    const op = BatchSaveOp[pendings[0].options[SaveOp]];
+    const adapter = store.adapterFor(type);
+    const modelClass = store.modelFor(type);
+    const snapshots = pendings.map((pending) => pending.snapshot);
+
+    let promise = guardDestroyedStore(
+      this._request({
+        op,
+        store,
+        adapter,
+        modelName: type,
+        modelClass,
+        snapshots,
+        requests: pendings.map((pending) => pending.queryRequest),
+      }),
+      store,
+      `DS: Handle Adapter#${op} of ${type}`
+    ).then((adapterPayload: AdapterPayload | undefined) => {
+      if (!adapterPayload || !payloadIsNotBlank(adapterPayload)) {
+        return snapshots.map(() => null);
+      }
+      let serializer = store.serializerFor(type);
+      let payload = normalizeResponseHelper(serializer, store, modelClass, adapterPayload, null, op);
+      let data = payload.data as CollectionResourceDocument['data'];
+      assert(
+        `The response to ${op} must contain a resource for each of the ${snapshots.length} ${type} records saved, in order`,
+        Array.isArray(data) && (data.length === snapshots.length || (op === 'deleteRecords' && data.length === 0))
+      );
+      return snapshots.map((_, i): SingleResourceDocument | null => {
+        if (!data[i]) {
+          return null;
+        }
+        // the included resources only need to be pushed once
+        return i === 0 && payload.included ? { data: data[i], included: payload.included } : { data: data[i] };
+      });
+    });
+
+    pendings.forEach((pending, i) => {
+      const { snapshot, identifier } = pending;
+      const record = store._instanceCache.getRecord(identifier);
+      this._resolveSave(
+        pending,
+        _guard(promise, _bind(_objectIsAlive, record)).then(
+          (documents) => {
+            // the response to the batch has no version for each of its records
+            this._didSave(snapshot, record, null);
+            return documents[i];
+          },
+          (error) => this._didFailSave(snapshot, errorForBatchItem(error, i))
+        )
+      );
+    });
+  }
+
+  /**
+    Sends the saves of a transaction to the adapter's `commitTransaction`
+    hook as a single request, resolving with the normalized response
+    for each save in order. When the transaction is rejected as a
+    conflict, the error's `conflicts` describes each of its saves.
+
+    @internal
+  */
+  commitTransaction(
+    saves: { identifier: StableRecordIdentifier; options: FetchMutationOptions }[]
+  ): Promise<(SingleResourceDocument | null)[]> {
+    const store = this._store;
+    const { type } = saves[0].identifier;
+    const adapter = store.adapterFor(type);
+
+    assert(`You tried to commit a transaction but you have no adapter (for ${type})`, adapter);
+    assert(
+      `You tried to commit a transaction but your adapter (for ${type}) does not implement 'commitTransaction'`,
+      typeof adapter.commitTransaction === 'function'
+    );
+
+    let requests: Request[] = [];
+    let snapshots = saves.map(({ identifier, options }) => {
+      assert(
+        `All records in a transaction must use the same adapter, but ${identifier.type} does not use the adapter for ${type}`,
+        store.adapterFor(identifier.type) === adapter
+      );
+      let snapshot = new Snapshot(options, identifier, store);
+      snapshot.operation = options[SaveOp];
+      snapshot.version = store._versionFor(identifier);
+      let query: SaveRecordMutation = { op: 'saveRecord', recordIdentifier: identifier, options };
+      requests.push({ data: [query] });
+      return snapshot;
+    });
+
+    let promise = guardDestroyedStore(
+      this._request({
+        op: 'commitTransaction',
+        store,
+        adapter,
+        modelName: type,
+        modelClass: store.modelFor(type),
+        snapshots,
+        requests,
+      }),
+      store,
+      `DS: Handle Adapter#commitTransaction`
+    ).then(
+      (adapterPayloads: AdapterPayload) => {
+        assert(
+          `Your adapter's 'commitTransaction' method must resolve with an array containing a response for each of the ${snapshots.length} records saved`,
+          Array.isArray(adapterPayloads) && adapterPayloads.length === snapshots.length
+        );
+        return snapshots.map((snapshot, i) => {
+          let adapterPayload = (adapterPayloads as AdapterPayload[])[i];
+          let record = store._instanceCache.getRecord(snapshot.identifier);
+          this._didSave(snapshot, record, etagFor(getResponseInfo(adapterPayload)));
+          if (!adapterPayload) {
+            return null;
+          }
+          let { modelName } = snapshot;
+          return normalizeResponseHelper(
+            store.serializerFor(modelName),
+            store,
+            store.modelFor(modelName),
+            adapterPayload,
+            snapshot.id,
+            snapshot.operation!
+          );
+        });
+      },
+      (error: unknown) => {
+        // the conflict is not attributed to one record, so it is described for each of them
+        if (isConflictError(error)) {
+          error.conflicts = snapshots.map((snapshot) => this._conflictFor(snapshot, error));
+        }
+        throw error;
       }
     );
-    resolver.resolve(promise);
+
+    requests.forEach((request) => this.requestCache.enqueue(promise, request));
+
+    return promise;
   }
 
   /**
@@ -188,10 +557,42 @@ export default class FetchManager {
   _flushPendingSaves() {
     let pending = this._pendingSave.slice();
     this._pendingSave = [];
+    // saves of a type are coalesced when its adapter can save several records at once,
+    // each batch being sent where its first save was scheduled
+    let batches = new Map<string, PendingSaveItem[]>();
+    let ordered: PendingSaveItem[][] = [];
     for (let i = 0, j = pending.length; i < j; i++) {
       let pendingItem = pending[i];
-      this._flushPendingSave(pendingItem);
+      if (this._canBatchSave(pendingItem)) {
+        let key = `${pendingItem.identifier.type}:${pendingItem.options[SaveOp]}`;
+        let batch = batches.get(key);
+        if (batch) {
+          batch.push(pendingItem);
+        } else {
+          batch = [pendingItem];
+          batches.set(key, batch);
+          ordered.push(batch);
+        }
+      } else {
+        ordered.push([pendingItem]);
+      }
+    }
+    ordered.forEach((batch) => {
+      if (batch.length > 1) {
+        this._sendSaves(batch);
+      } else {
+        this._flushPendingSave(batch[0]);
+      }
+    });
+  }
+
+  _canBatchSave(pending: PendingSaveItem): boolean {
+    const queue = this.offlineQueue;
+    if (queue && queue.shouldQueue(pending)) {
+      return false;
     }
+    const adapter = this._store.adapterFor(pending.identifier.type);
+    return !!adapter && typeof adapter[BatchSaveOp[pending.options[SaveOp]]] === 'function';
   }
 
   scheduleFetch(identifier: StableExistingRecordIdentifier, options: FindOptions): Promise<StableRecordIdentifier> {
@@ -305,8 +706,16 @@ export default class FetchManager {
     let label = `DS: Handle Adapter#findRecord of '${modelName}' with id: '${id}'`;
 
     let promise = guardDestroyedStore(
-      resolve().then(() => {
-        return adapter.findRecord(this._store, klass, identifier.id, snapshot);
+      this._request({
+        op: 'findRecord',
+        store: this._store,
+        adapter,
+        modelName,
+        modelClass: klass,
+        id,
+        snapshot,
+        options: fetchItem.options,
+        requests: [fetchItem.queryRequest],
       }),
       this._store,
       label
@@ -315,6 +724,7 @@ export default class FetchManager {
         `You made a 'findRecord' request for a '${modelName}' with id '${id}', but the adapter's response did not have any data`,
         !!payloadIsNotBlank(adapterPayload)
       );
+      this.requestCache.didReceiveVersion(identifier, etagFor(getResponseInfo(adapterPayload)));
       let serializer = this._store.serializerFor(modelName);
       let payload = normalizeResponseHelper(serializer, this._store, klass, adapterPayload, id, 'findRecord');
       assert(
@@ -422,17 +832,28 @@ export default class FetchManager {
     optionsMap
   ) {
     let modelClass = store.modelFor(modelName); // `adapter.findMany` gets the modelClass still
-    let ids = snapshots.map((s) => s.id);
-    let promise = adapter.findMany(store, modelClass, ids, snapshots);
+    let ids = snapshots.map((s) => s.id as string);
     let label = `DS: Handle Adapter#findMany of '${modelName}'`;
+    // each record is also tracked by its own findRecord request
+    let request: Request = {
+      data: [{ op: 'findMany', modelName, identifiers: snapshots.map((s) => s.identifier), options: undefined }],
+    };
+    let promise = guardDestroyedStore(
+      this._request({
+        op: 'findMany',
+        store,
+        adapter,
+        modelName,
+        modelClass,
+        ids,
+        snapshots,
+        requests: [request],
+      }),
+      store,
+      label
+    );
 
-    if (promise === undefined) {
-      throw new Error('adapter.findMany returned undefined, this was very likely a mistake');
-    }
-
-    promise = guardDestroyedStore(promise, store, label);
-
-    return promise.then(
+    promise = promise.then(
       (adapterPayload) => {
         assert(
           `You made a 'findMany' request for '${modelName}' records with ids '[${ids}]', but the adapter's response did not have any data`,
@@ -445,6 +866,13 @@ export default class FetchManager {
       null,
       `DS: Extract payload of ${modelName}`
     );
+    trackRequest(
+      store,
+      promise.then(() => []),
+      request
+    );
+
+    return promise;
   }
 
   _processCoalescedGroup(
@@ -556,6 +984,19 @@ export default class FetchManager {
   }
 
   destroy() {
+    if (this.offlineQueue) {
+      this.offlineQueue.destroy();
+    }
+    this._retryWaits.forEach((stop) => stop());
+    // fetches which were scheduled but not yet flushed will never be made
+    this._pendingFetch.forEach((pendingFetchItems) => {
+      pendingFetchItems.forEach(({ identifier, resolver }) => {
+        resolver.reject(
+          new Error(`Unable to fetch '<${identifier.type}:${identifier.id}>' as the store was destroyed`)
+        );
+      });
+    });
+    this._pendingFetch.clear();
     this.isDestroyed = true;
   }
 }
@@ -1,9 +1,9 @@
 import { assert } from '@ember/debug';
 
-import { Promise } from 'rsvp';
-
 import { guardDestroyedStore } from '../utils/common';
 import { normalizeResponseHelper } from '../utils/serializer-response';
+import { queryCacheKey } from './cache-policy';
+import { dedupe, dedupeKey } from './dedupe';
 
 /**
   @module @ember-data/store
@@ -17,16 +17,58 @@ function payloadIsNotBlank(adapterPayload) {
   }
 }
 
+/**
+  Returns the identifiers of both the primary and included
+  records of a normalized response.
+
+  @internal
+*/
+export function touchedIdentifiers(store, identifiers, payload) {
+  let touched = identifiers.slice();
+  if (payload.included) {
+    payload.included.forEach((resource) => {
+      touched.push(store.identifierCache.getOrCreateRecordIdentifier(resource));
+    });
+  }
+  return touched;
+}
+
+/**
+  Makes a request which is not for a single record visible to
+  the request state service. `promise` must resolve with the
+  identifiers the request touched.
+
+  @internal
+*/
+export function trackRequest(store, promise, request) {
+  store.getRequestStateService().enqueue(promise, request);
+}
+
 export function _findAll(adapter, store, modelName, options) {
+  let key = dedupeKey(['findAll', modelName, options.include], options);
+  return dedupe(store, key, () => _fetchAll(adapter, store, modelName, options));
+}
+
+function _fetchAll(adapter, store, modelName, options) {
   let modelClass = store.modelFor(modelName); // adapter.findAll depends on the class
   let recordArray = store.peekAll(modelName);
   let snapshotArray = recordArray._createSnapshot(options);
-  let promise = Promise.resolve().then(() => adapter.findAll(store, modelClass, null, snapshotArray));
+  let request = { data: [{ op: 'findAll', modelName, options }] };
+  let promise = store._fetchManager._request({
+    op: 'findAll',
+    store,
+    adapter,
+    modelName,
+    modelClass,
+    snapshotRecordArray: snapshotArray,
+    options,
+    requests: [request],
+  });
   let label = 'DS: Handle Adapter#findAll of ' + modelClass;
 
   promise = guardDestroyedStore(promise, store, label);
 
-  return promise.then(
+  let touched = promise.then(
     (adapterPayload) => {
       assert(
         `You made a 'findAll' request for '${modelName}' records, but the adapter's response did not have any data`,
@@ -35,14 +77,22 @@ export function _findAll(adapter, store, modelName, options) {
       let serializer = store.serializerFor(modelName);
       let payload = normalizeResponseHelper(serializer, store, modelClass, adapterPayload, null, 'findAll');
 
-      store._push(payload);
+      let identifiers = store._push(payload);
+      let requests = store.getRequestStateService();
+      if (Array.isArray(identifiers)) {
+        requests.didFetch(identifiers);
+      }
+      requests.didFetchQuery(queryCacheKey('findAll', modelName));
       store.recordArrayManager._didUpdateAll(modelName);
 
-      return recordArray;
+      return touchedIdentifiers(store, Array.isArray(identifiers) ? identifiers : [], payload);
     },
     null,
     'DS: Extract payload of findAll ${modelName}'
   );
+  trackRequest(store, touched, request);
+
+  return touched.then(() => recordArray);
 }
 
 export function _query(adapter, store, modelName, query, recordArray, options) {
@@ -50,12 +100,23 @@ export function _query(adapter, store, modelName, query, recordArray, options) {
 
   // TODO @deprecate RecordArrays being passed to Adapters
   recordArray = recordArray || store.recordArrayManager.createAdapterPopulatedRecordArray(modelName, query);
-  let promise = Promise.resolve().then(() => adapter.query(store, modelClass, query, recordArray, options));
+  let request = { data: [{ op: 'query', modelName, query, options }] };
+  let promise = store._fetchManager._request({
+    op: 'query',
+    store,
+    adapter,
+    modelName,
+    modelClass,
+    query,
+    recordArray,
+    options,
+    requests: [request],
+  });
 
   let label = `DS: Handle Adapter#query of ${modelName}`;
   promise = guardDestroyedStore(promise, store, label);
 
-  return promise.then(
+  let touched = promise.then(
     (adapterPayload) => {
       let serializer = store.serializerFor(modelName);
       let payload = normalizeResponseHelper(serializer, store, modelClass, adapterPayload, null, 'query');
@@ -66,22 +127,39 @@ export function _query(adapter, store, modelName, query, recordArray, options) {
         Array.isArray(identifiers)
       );
       recordArray._setIdentifiers(identifiers, payload);
+      let requests = store.getRequestStateService();
+      requests.didFetch(identifiers);
+      requests.didFetchQuery(queryCacheKey('query', modelName, query));
 
-      return recordArray;
+      return touchedIdentifiers(store, identifiers, payload);
     },
     null,
     `DS: Extract payload of query ${modelName}`
   );
+  trackRequest(store, touched, request);
+
+  return touched.then(() => recordArray);
 }
 
 export function _queryRecord(adapter, store, modelName, query, options) {
   let modelClass = store.modelFor(modelName); // adapter.queryRecord needs the class
-  let promise = Promise.resolve().then(() => adapter.queryRecord(store, modelClass, query, options));
+  let request = { data: [{ op: 'queryRecord', modelName, query, options }] };
+  let promise = store._fetchManager._request({
+    op: 'queryRecord',
+    store,
+    adapter,
+    modelName,
+    modelClass,
+    query,
+    options,
+    requests: [request],
+  });
 
   let label = `DS: Handle Adapter#queryRecord of ${modelName}`;
   promise = guardDestroyedStore(promise, store, label);
 
-  return promise.then(
+  let identifier = null;
+  let touched = promise.then(
     (adapterPayload) => {
       let serializer = store.serializerFor(modelName);
       let payload = normalizeResponseHelper(serializer, store, modelClass, adapterPayload, null, 'queryRecord');
@@ -91,9 +169,18 @@ export function _queryRecord(adapter, store, modelName, query, options) {
         !Array.isArray(payload.data)
       );
 
-      return store._push(payload);
+      identifier = store._push(payload);
+      let requests = store.getRequestStateService();
+      if (identifier) {
+        requests.didFetch([identifier]);
+      }
+      requests.didFetchQuery(queryCacheKey('queryRecord', modelName, query));
+      return touchedIdentifiers(store, identifier ? [identifier] : [], payload);
     },
     null,
     `DS: Extract payload of queryRecord ${modelName}`
   );
+  trackRequest(store, touched, request);
+
+  return touched.then(() => identifier);
 }
@@ -0,0 +1,46 @@
+/**
+ * @module @ember-data/store
+ */
+import type { RealtimeListener, RealtimeMessage, RealtimeSource } from '@ember-data/types/q/realtime';
+
+/**
+ * A `RealtimeSource` driven by calls to `emit`, delivering each message
+ * synchronously to every subscriber.
+ *
+ * Useful in tests, or to feed messages from a transport the application
+ * already manages into the store.
+ *
+ * ```js
+ * import { LocalEventSource } from '@ember-data/store';
+ *
+ * const source = new LocalEventSource();
+ * store.connectRealtime(source);
+ *
+ * source.emit({ data: { type: 'post', id: '1', attributes: { title: 'Updated' } } });
+ * source.emit({ event: 'removed', type: 'post', id: '2' });
+ * ```
+ *
+ * @class LocalEventSource
+ * @public
+ */
+export default class LocalEventSource implements RealtimeSource {
+  declare _listeners: RealtimeListener[];
+
+  constructor() {
+    this._listeners = [];
+  }
+
+  subscribe(listener: RealtimeListener): () => void {
+    this._listeners.push(listener);
+    return () => {
+      let index = this._listeners.indexOf(listener);
+      if (index !== -1) {
+        this._listeners.splice(index, 1);
+      }
+    };
+  }
+
+  emit(message: RealtimeMessage): void {
+    this._listeners.slice().forEach((listener) => listener(message));
+  }
+}
@@ -0,0 +1,344 @@
+/**
+ * @module @ember-data/store
+ */
+import { assert, warn } from '@ember/debug';
+
+import { all, default as RSVP, reject, resolve } from 'rsvp';
+
+import type { OfflineQueueOptions } from '@ember-data/types/q/fetch-manager';
+import type { StableRecordIdentifier } from '@ember-data/types/q/identifier';
+import type { PersistentStorage } from '@ember-data/types/q/persistent-storage';
+import type { JsonApiResource } from '@ember-data/types/q/record-data-json-api';
+import type { RecordInstance } from '@ember-data/types/q/record-instance';
+import type { Dict } from '@ember-data/types/q/utils';
+
+import type Store from '../store-service';
+import type FetchManager from './fetch-manager';
+import type { PendingSaveItem } from './fetch-manager';
+import { OfflineReplay, SaveOp } from './fetch-manager';
+import type Snapshot from './snapshot';
+
+type MutationOp = 'createRecord' | 'updateRecord' | 'deleteRecord';
+
+// the persisted form of a queued save
+interface QueuedMutation {
+  lid: string;
+  type: string;
+  id: string | null;
+  op: MutationOp;
+  data: unknown;
+  adapterOptions?: unknown;
+  // for updates, the value last received from the server of each attribute
+  // changed locally, serialized by its transform
+  base?: Dict<unknown>;
+}
+
+type Transform = {
+  serialize(value: unknown, options?: unknown): unknown;
+  deserialize(value: unknown, options?: unknown): unknown;
+};
+type SerializerWithTransforms = { transformFor?(type: string, skipAssertion?: boolean): Transform | undefined };
+
+interface QueuedItem {
+  mutation: QueuedMutation;
+  pending: PendingSaveItem;
+  resolver: RSVP.Deferred<unknown>;
+}
+
+const DEFAULT_KEY = 'ember-data:offline-queue';
+
+function defaultIsOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+/**
+ * Holds mutations which could not be sent because the application
+ * is offline, persisting them to a storage backend and replaying
+ * them in order once connectivity returns.
+ *
+ * @class OfflineQueue
+ * @internal
+ */
+export default class OfflineQueue {
+  declare _store: Store;
+  declare _fetchManager: FetchManager;
+  declare _storage: PersistentStorage;
+  declare _key: string;
+  declare _isOnline: () => boolean;
+  declare _items: QueuedItem[];
+  declare _replaying: Promise<void> | null;
+  declare _onOnline: () => void;
+  declare isDestroyed: boolean;
+
+  constructor(store: Store, fetchManager: FetchManager, options: OfflineQueueOptions) {
+    assert(`You must provide a storage backend to enable offline mode`, options && options.storage);
+    this._store = store;
+    this._fetchManager = fetchManager;
+    this._storage = options.storage;
+    this._key = options.key || DEFAULT_KEY;
+    this._isOnline = options.isOnline || defaultIsOnline;
+    this._items = [];
+    this._replaying = null;
+    this.isDestroyed = false;
+
+    this._onOnline = () => {
+      void this.replay();
+    };
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this._onOnline);
+    }
+  }
+
+  get length(): number {
+    return this._items.length;
+  }
+
+  /**
+   * While anything is queued, new mutations must queue behind it
+   * to preserve ordering.
+   *
+   * @internal
+   */
+  shouldQueue(pending: PendingSaveItem): boolean {
+    return pending.options[OfflineReplay] === true || this._items.length > 0 || !this._isOnline();
+  }
+
+  isOfflineError(error: unknown, pending: PendingSaveItem): boolean {
+    if (pending.options.signal && pending.options.signal.aborted) {
+      return false;
+    }
+    if (error && typeof error === 'object' && (error as { isAdapterError?: boolean }).isAdapterError) {
+      return (error as { code?: string }).code === 'AbortError' && !this._isOnline();
+    }
+    // fetch rejects with a TypeError when the network is unreachable
+    return error instanceof TypeError || !this._isOnline();
+  }
+
+  /**
+   * Queues a save, resolving with the normalized response once
+   * the save has been replayed.
+   *
+   * @internal
+   */
+  enqueue(pending: PendingSaveItem): Promise<unknown> {
+    const { identifier, snapshot } = pending;
+    const resolver = RSVP.defer(`DS: Offline ${pending.options[SaveOp]} of ${String(identifier)}`);
+    const mutation: QueuedMutation = {
+      lid: (identifier as StableRecordIdentifier).lid,
+      type: identifier.type,
+      id: snapshot.id,
+      op: pending.options[SaveOp],
+      data: this._store.serializerFor(identifier.type) ? snapshot.serialize({ includeId: true }) : null,
+    };
+    if (snapshot.adapterOptions) {
+      mutation.adapterOptions = snapshot.adapterOptions;
+    }
+    if (mutation.op === 'updateRecord') {
+      mutation.base = this._baseFor(snapshot);
+    }
+
+    this._items.push({ mutation, pending, resolver });
+    void this._persist();
+
+    return resolver.promise;
+  }
+
+  /**
+   * Replays queued mutations one at a time, in the order they were
+   * queued. Replay stops at the first mutation which fails because
+   * we are still offline.
+   *
+   * @internal
+   */
+  replay(): Promise<void> {
+    if (this._replaying) {
+      return this._replaying;
+    }
+
+    const next = (): Promise<void> | void => {
+      const item = this._items[0];
+      if (!item || this.isDestroyed || !this._isOnline()) {
+        return;
+      }
+
+      return this._fetchManager._sendSave(item.pending).then(
+        (payload) => {
+          this._items.shift();
+          void this._persist();
+          item.resolver.resolve(payload);
+          return next();
+        },
+        (error) => {
+          if (this.isOfflineError(error, item.pending)) {
+            return;
+          }
+          this._items.shift();
+          void this._persist();
+          item.resolver.reject(error);
+          return next();
+        }
+      );
+    };
+
+    this._replaying = resolve()
+      .then(next)
+      .finally(() => {
+        this._replaying = null;
+      });
+
+    return this._replaying;
+  }
+
+  /**
+   * Loads mutations persisted by a previous session, recreating the
+   * affected records with their original identifiers and saving them
+   * again through the queue.
+   *
+   * @internal
+   */
+  restore(): Promise<void> {
+    return resolve(this._storage.getItem(this._key)).then((persisted) => {
+      if (this.isDestroyed || !Array.isArray(persisted) || persisted.length === 0) {
+        return;
+      }
+      const store = this._store;
+      const saves: Promise<void>[] = [];
+
+      store._backburner.join(() => {
+        for (let i = 0; i < persisted.length; i++) {
+          const mutation = persisted[i] as QueuedMutation;
+          const record = this._restoreRecord(mutation);
+          const options = { [OfflineReplay]: true } as { [OfflineReplay]: true; adapterOptions?: unknown };
+          if (mutation.adapterOptions) {
+            options.adapterOptions = mutation.adapterOptions;
+          }
+          // nothing else waits on a restored save, the record holds the error of one that fails
+          saves.push(
+            store.saveRecord(record, options).then(
+              () => {},
+              (error: unknown) => {
+                warn(
+                  `The restored ${mutation.op} of ${mutation.type}:${mutation.id || mutation.lid} failed: ${String(
+                    error && (error as Error).message
+                  )}`,
+                  false,
+                  { id: 'ds.offline-queue.restored-save-failed' }
+                );
+              }
+            )
+          );
+        }
+      });
+      // move the restored saves into the queue now rather than
+      // at the end of the runloop so that replay sees them
+      this._fetchManager._flushPendingSaves();
+
+      // the saves only settle once replayed, which stops while we are offline
+      return this.replay().then(() => (this._items.length ? undefined : all(saves).then(() => {})));
+    });
+  }
+
+  _restoreRecord(mutation: QueuedMutation): RecordInstance {
+    const store = this._store;
+    const { lid, type, id, op } = mutation;
+    const resource = this._normalize(mutation);
+    const cache = store.identifierCache;
+    let identifier = cache.peekRecordIdentifier({ lid });
+
+    if (op === 'createRecord') {
+      if (!identifier) {
+        identifier = cache.createIdentifierForNewRecord({ type, id, lid } as { type: string; id: string | null });
+      }
+      const recordData = store._instanceCache.getRecordData(identifier);
+      recordData.pushData(resource);
+      recordData.clientDidCreate();
+      store.recordArrayManager.recordDidChange(identifier);
+      return store._instanceCache.getRecord(identifier);
+    }
+
+    assert(`Expected the queued ${op} of ${type}:${lid} to have an id`, id !== null);
+    const { base } = mutation;
+    if (op === 'updateRecord' && base) {
+      // the server's state is pushed, and the queued changes applied to it locally
+      const local = resource.attributes || {};
+      const remote = Object.assign({}, local);
+      Object.keys(base).forEach((key) => {
+        remote[key] = this._transform(type, key, base[key], 'deserialize');
+      });
+      identifier = store._push({
+        data: Object.assign(resource, { type, id, lid, attributes: remote }),
+      }) as StableRecordIdentifier;
+      const recordData = store._instanceCache.getRecordData(identifier);
+      Object.keys(base).forEach((key) => recordData.setDirtyAttribute(key, local[key]));
+      return store._instanceCache.getRecord(identifier);
+    }
+
+    identifier = store._push({ data: Object.assign(resource, { type, id, lid }) }) as StableRecordIdentifier;
+    const record = store._instanceCache.getRecord(identifier);
+    if (op === 'deleteRecord') {
+      store.deleteRecord(record);
+    }
+    return record;
+  }
+
+  _baseFor(snapshot: Snapshot): Dict<unknown> {
+    const base = Object.create(null) as Dict<unknown>;
+    const changed = snapshot.changedAttributes();
+    Object.keys(changed).forEach((key) => {
+      base[key] = this._transform(snapshot.modelName, key, changed[key]![0], 'serialize');
+    });
+    return base;
+  }
+
+  // serializes values with the transform of their attribute, so that they survive storage
+  _transform(type: string, key: string, value: unknown, direction: 'serialize' | 'deserialize'): unknown {
+    const serializer = this._store.serializerFor(type) as SerializerWithTransforms | null;
+    const attribute = this._store.getSchemaDefinitionService().attributesDefinitionFor({ type })[key];
+    if (!serializer || typeof serializer.transformFor !== 'function' || !attribute || !attribute.type) {
+      return value;
+    }
+    const transform = serializer.transformFor(attribute.type, true);
+    return transform ? transform[direction](value, attribute.options) : value;
+  }
+
+  _normalize(mutation: QueuedMutation): JsonApiResource {
+    const { lid, type, id, data } = mutation;
+    const serializer = this._store.serializerFor(type);
+
+    if (!data || !serializer || typeof serializer.normalize !== 'function') {
+      return { type, id, lid };
+    }
+    // serializers following JSON:API wrap the serialized resource in `data`
+    const hash = typeof data === 'object' && 'data' in data ? (data as { data: object }).data : data;
+    const normalized = serializer.normalize(
+      this._store.modelFor(type),
+      hash as Parameters<typeof serializer.normalize>[1]
+    );
+    return Object.assign({}, normalized.data, { type, id, lid }) as JsonApiResource;
+  }
+
+  // the queue remains in memory when it cannot be persisted, e.g. when the storage quota is exceeded
+  _persist(): Promise<void> {
+    const mutations = this._items.map((item) => item.mutation);
+    let promise: Promise<void>;
+    try {
+      promise = resolve(
+        mutations.length ? this._storage.setItem(this._key, mutations) : this._storage.removeItem(this._key)
+      );
+    } catch (error) {
+      promise = reject(error);
+    }
+    return promise.catch((error: unknown) => {
+      warn(`The offline queue could not be persisted: ${String(error && (error as Error).message)}`, false, {
+        id: 'ds.offline-queue.persist-failed',
+      });
+    });
+  }
+
+  destroy() {
+    this.isDestroyed = true;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this._onOnline);
+    }
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * @module @ember-data/store
+ */
+import { assert } from '@ember/debug';
+
+import { resolve } from 'rsvp';
+
+import type { RequestState } from '@ember-data/types/q/fetch-manager';
+import type { StableRecordIdentifier } from '@ember-data/types/q/identifier';
+import type { AdapterPayload } from '@ember-data/types/q/minimum-adapter-interface';
+import type { RealtimeMessage, RealtimeRemoval, RealtimeSource, RealtimeUpdate } from '@ember-data/types/q/realtime';
+import type { JsonApiResource } from '@ember-data/types/q/record-data-json-api';
+
+import type Store from '../store-service';
+import coerceId from '../utils/coerce-id';
+import constructResource from '../utils/construct-resource';
+import normalizeModelName from '../utils/normalize-model-name';
+import { normalizeResponseHelper } from '../utils/serializer-response';
+
+function isRemoval(message: RealtimeMessage): message is RealtimeRemoval {
+  return 'event' in message && (message.event === 'removed' || message.event === 'delete');
+}
+
+function primaryType(document: unknown): string | undefined {
+  let data = document && typeof document === 'object' ? (document as { data?: unknown }).data : undefined;
+  if (Array.isArray(data)) {
+    data = data[0];
+  }
+  return data && typeof data === 'object' ? (data as { type?: string }).type : undefined;
+}
+
+/**
+ * Applies the messages of a `RealtimeSource` to the store.
+ *
+ * Messages for a record with a save in flight are held until the save
+ * settles. The response to a successful save supersedes them, so they
+ * are only applied when the save fails.
+ *
+ * @class RealtimeConnection
+ * @internal
+ */
+export default class RealtimeConnection {
+  declare _store: Store;
+  // the held update for a record, or null for a held removal
+  declare _held: Map<StableRecordIdentifier, JsonApiResource | null>;
+  declare _unsubscribe: () => void;
+  declare _unsubscribeRequests: () => void;
+  declare isDestroyed: boolean;
+
+  constructor(store: Store, source: RealtimeSource) {
+    this._store = store;
+    this._held = new Map();
+    this.isDestroyed = false;
+    this._unsubscribeRequests = store.getRequestStateService().subscribe((request) => this._requestDidChange(request));
+    this._unsubscribe = source.subscribe((message) => this.receive(message));
+  }
+
+  receive(message: RealtimeMessage): void {
+    if (this.isDestroyed) {
+      return;
+    }
+    if (isRemoval(message)) {
+      this._remove(message);
+    } else {
+      this._update('event' in message ? message : { event: 'update', document: message });
+    }
+  }
+
+  _update(update: RealtimeUpdate): void {
+    const store = this._store;
+    const type = update.modelName || primaryType(update.document);
+    assert(`A realtime update must have primary data or a modelName to find its serializer by`, type);
+    const modelName = update.modelName ? normalizeModelName(type) : this._modelNameFor(type);
+    const requestType = Array.isArray((update.document as { data?: unknown }).data) ? 'findAll' : 'findRecord';
+
+    const document = normalizeResponseHelper(
+      store.serializerFor(modelName),
+      store,
+      store.modelFor(modelName),
+      update.document as AdapterPayload,
+      null,
+      requestType
+    );
+
+    const resources = ([] as JsonApiResource[]).concat(document.data || [], document.included || []);
+    const ready = resources.filter((resource) => {
+      const identifier = store.identifierCache.peekRecordIdentifier(
+        constructResource(resource.type!, resource.id, resource.lid)
+      );
+      if (identifier && this._isSaving(identifier)) {
+        this._held.set(identifier, resource);
+        return false;
+      }
+      return true;
+    });
+
+    if (ready.length) {
+      store._push({ data: ready });
+    }
+  }
+
+  _remove(removal: RealtimeRemoval): void {
+    const identifier = this._store.identifierCache.peekRecordIdentifier(
+      constructResource(this._modelNameFor(removal.type), coerceId(removal.id))
+    );
+    if (!identifier) {
+      return;
+    }
+    if (this._isSaving(identifier)) {
+      this._held.set(identifier, null);
+      return;
+    }
+    this._store._instanceCache.unloadRecord(identifier);
+  }
+
+  _modelNameFor(type: string): string {
+    // the serializer for the type, falling back to the application serializer
+    const serializer = this._store.serializerFor(normalizeModelName(type)) as {
+      modelNameFromPayloadKey?(key: string): string;
+    };
+    if (serializer && typeof serializer.modelNameFromPayloadKey === 'function') {
+      return serializer.modelNameFromPayloadKey(type);
+    }
+    return normalizeModelName(type);
+  }
+
+  _isSaving(identifier: StableRecordIdentifier): boolean {
+    const requests = this._store.getRequestStateService().getPendingRequestsForRecord(identifier);
+    return requests.some((request) => request.type === 'mutation');
+  }
+
+  _requestDidChange(request: RequestState): void {
+    if (request.type !== 'mutation' || request.state === 'pending' || !this._held.size) {
+      return;
+    }
+    const identifiers = this._store.getRequestStateService().getIdentifiersForRequest(request);
+    identifiers.forEach((identifier: StableRecordIdentifier) => {
+      if (!this._held.has(identifier) || this._isSaving(identifier)) {
+        return;
+      }
+      const resource = this._held.get(identifier)!;
+      this._held.delete(identifier);
+      if (request.state === 'fulfilled') {
+        return;
+      }
+      // let the store finish handling the failed save before applying the message
+      void resolve().then(() => {
+        if (this.isDestroyed) {
+          return;
+        }
+        if (resource) {
+          this._store._push({ data: [resource] });
+        } else {
+          this._store._instanceCache.unloadRecord(identifier);
+        }
+      });
+    });
+  }
+
+  destroy(): void {
+    this.isDestroyed = true;
+    this._unsubscribe();
+    this._unsubscribeRequests();
+    this._held.clear();
+  }
+}
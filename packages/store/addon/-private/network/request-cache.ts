@@ -1,8 +1,14 @@
+import { assert } from '@ember/debug';
+
 import type {
+  CollectionQuery,
   FindRecordQuery,
   Operation,
   Request,
+  RequestHistoryEntry,
+  RequestHistoryOptions,
   RequestState,
+  ResponseInfo,
   SaveRecordMutation,
 } from '@ember-data/types/q/fetch-manager';
 import type { RecordIdentifier } from '@ember-data/types/q/identifier';
@@ -16,18 +22,54 @@ interface InternalRequest extends RequestState {
 }
 
 type RecordOperation = FindRecordQuery | SaveRecordMutation;
+type RequestSubscription = (requestState: RequestState) => void;
 
-function hasRecordIdentifier(op: Operation): op is RecordOperation {
+function hasRecordIdentifier(op: Operation | CollectionQuery): op is RecordOperation {
   return 'recordIdentifier' in op;
 }
 
+// appends to a list, dropping the oldest entries beyond `limit`
+function pushBounded<T>(list: T[], item: T, limit: number) {
+  list.push(item);
+  if (list.length > limit) {
+    list.splice(0, list.length - limit);
+  }
+}
+
+function uniqueIdentifiers(identifiers: RecordIdentifier[]): RecordIdentifier[] {
+  return [...new Set(identifiers)];
+}
+
+// a request is considered aborted (rather than failed) when the signal
+// it was issued with has been aborted, or when the adapter reports an abort
+function isAbort(query: Operation | CollectionQuery, error: unknown): boolean {
+  const signal = (query.options as { signal?: AbortSignal } | undefined)?.signal;
+  if (signal && signal.aborted) {
+    return true;
+  }
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+  const { name, code, isAdapterError } = error as { name?: string; code?: string; isAdapterError?: boolean };
+  return name === 'AbortError' || (isAdapterError === true && code === 'AbortError');
+}
+
 export default class RequestCache {
   _pending: { [lid: string]: InternalRequest[] } = Object.create(null);
-  _done: { [lid: string]: InternalRequest[] } = Object.create(null);
+  _history: { [lid: string]: RequestHistoryEntry[] } = Object.create(null);
+  _globalHistory: RequestHistoryEntry[] = [];
+  _historyLimits: Required<RequestHistoryOptions> = { perRecord: 10, global: 100 };
+  _responses: WeakMap<Request, ResponseInfo | null> = new WeakMap();
   _subscriptions: { [lid: string]: Function[] } = Object.create(null);
+  _allPending: InternalRequest[] = [];
+  _globalSubscriptions: RequestSubscription[] = [];
+  _fetchedAt: { [lid: string]: number } = Object.create(null);
+  _queryFetchedAt: { [key: string]: number } = Object.create(null);
+  _versions: { [lid: string]: string } = Object.create(null);
 
   enqueue(promise: Promise<any>, queryRequest: Request) {
     let query = queryRequest.data[0];
+    let startedAt = Date.now();
     if (hasRecordIdentifier(query)) {
       let lid = query.recordIdentifier.lid;
       let type = query.op === 'saveRecord' ? ('mutation' as const) : ('query' as const);
@@ -42,10 +84,14 @@ export default class RequestCache {
       request[Touching] = [query.recordIdentifier];
       request[RequestPromise] = promise;
       this._pending[lid].push(request);
+      this._allPending.push(request);
       this._triggerSubscriptions(request);
       promise.then(
         (result) => {
           this._dequeue(lid, request);
+          if (type === 'query') {
+            this._fetchedAt[lid] = Date.now();
+          }
           let finalizedRequest = {
             state: 'fulfilled',
             request: queryRequest,
@@ -53,56 +99,232 @@ export default class RequestCache {
             response: { data: result },
           } as InternalRequest;
           finalizedRequest[Touching] = request[Touching];
-          this._addDone(finalizedRequest);
+          this._addDone(finalizedRequest, startedAt);
           this._triggerSubscriptions(finalizedRequest);
         },
         (error) => {
           this._dequeue(lid, request);
           let finalizedRequest = {
-            state: 'rejected',
+            state: isAbort(query, error) ? 'aborted' : 'rejected',
             request: queryRequest,
             type,
             response: { data: error },
           } as InternalRequest;
           finalizedRequest[Touching] = request[Touching];
-          this._addDone(finalizedRequest);
+          this._addDone(finalizedRequest, startedAt);
           this._triggerSubscriptions(finalizedRequest);
         }
       );
+    } else {
+      this._enqueueCollection(promise, queryRequest, query as CollectionQuery, startedAt);
     }
   }
 
-  _triggerSubscriptions(req: InternalRequest) {
-    req[Touching].forEach((identifier) => {
-      if (this._subscriptions[identifier.lid]) {
-        this._subscriptions[identifier.lid].forEach((callback) => callback(req));
+  // the promise for a collection request resolves with the identifiers it loaded
+  _enqueueCollection(
+    promise: Promise<RecordIdentifier[] | null>,
+    queryRequest: Request,
+    query: CollectionQuery,
+    startedAt: number
+  ) {
+    let known = query.identifiers || [];
+    let request = {
+      state: 'pending',
+      request: queryRequest,
+      type: 'query',
+    } as InternalRequest;
+    request[Touching] = known;
+    request[RequestPromise] = promise;
+    this._allPending.push(request);
+    this._triggerSubscriptions(request);
+
+    promise.then(
+      (identifiers) => {
+        this._removePending(request);
+        let finalizedRequest = {
+          state: 'fulfilled',
+          request: queryRequest,
+          type: 'query',
+          response: { data: identifiers },
+        } as InternalRequest;
+        finalizedRequest[Touching] = identifiers ? uniqueIdentifiers(known.concat(identifiers)) : known;
+        this._addToGlobalHistory(this._historyEntry(finalizedRequest, startedAt));
+        this._triggerSubscriptions(finalizedRequest);
+      },
+      (error) => {
+        this._removePending(request);
+        let finalizedRequest = {
+          state: isAbort(query, error) ? 'aborted' : 'rejected',
+          request: queryRequest,
+          type: 'query',
+          response: { data: error },
+        } as InternalRequest;
+        finalizedRequest[Touching] = known;
+        this._addToGlobalHistory(this._historyEntry(finalizedRequest, startedAt));
+        this._triggerSubscriptions(finalizedRequest);
       }
-    });
+    );
+  }
+
+  _triggerSubscriptions(req: InternalRequest) {
+    // record subscribers observe the state of the record itself, which
+    // collection requests do not change
+    if (hasRecordIdentifier(req.request.data[0])) {
+      req[Touching].forEach((identifier) => {
+        if (this._subscriptions[identifier.lid]) {
+          this._subscriptions[identifier.lid].forEach((callback) => callback(req));
+        }
+      });
+    }
+    this._globalSubscriptions.slice().forEach((callback) => callback(req));
+  }
+
+  _removePending(request: InternalRequest) {
+    let index = this._allPending.indexOf(request);
+    if (index !== -1) {
+      this._allPending.splice(index, 1);
+    }
   }
 
   _dequeue(lid: string, request: InternalRequest) {
     this._pending[lid] = this._pending[lid].filter((req) => req !== request);
+    this._removePending(request);
+  }
+
+  _historyEntry(request: InternalRequest, startedAt: number): RequestHistoryEntry {
+    let endedAt = Date.now();
+    return {
+      requestState: request,
+      startedAt,
+      endedAt,
+      duration: endedAt - startedAt,
+      response: this._responses.get(request.request) || null,
+    };
   }
 
-  _addDone(request: InternalRequest) {
+  _addToGlobalHistory(entry: RequestHistoryEntry) {
+    pushBounded(this._globalHistory, entry, this._historyLimits.global);
+  }
+
+  _addDone(request: InternalRequest, startedAt: number) {
+    let entry = this._historyEntry(request, startedAt);
     request[Touching].forEach((identifier) => {
-      if (!this._done[identifier.lid]) {
-        this._done[identifier.lid] = [];
+      if (!this._history[identifier.lid]) {
+        this._history[identifier.lid] = [];
       }
-      // TODO add support for multiple
-      let requestDataOp = request.request.data[0].op;
-      this._done[identifier.lid] = this._done[identifier.lid].filter((req) => {
-        // TODO add support for multiple
-        let data;
-        if (req.request.data instanceof Array) {
-          data = req.request.data[0];
-        } else {
-          data = req.request.data;
-        }
-        return data.op !== requestDataOp;
-      });
-      this._done[identifier.lid].push(request);
+      pushBounded(this._history[identifier.lid], entry, this._historyLimits.perRecord);
+    });
+    this._addToGlobalHistory(entry);
+  }
+
+  /**
+    Records the response an adapter call received for the requests it served.
+
+    @method didReceiveResponse
+    @internal
+  */
+  didReceiveResponse(requests: Request[], info: ResponseInfo | null) {
+    requests.forEach((request) => this._responses.set(request, info));
+  }
+
+  /**
+    Configures how many settled requests are kept in the request history,
+    both for each record and across the store. Defaults to 10 per record
+    and 100 overall.
+
+    ```js
+    store.getRequestStateService().configureHistory({ perRecord: 5, global: 500 });
+    ```
+
+    @method configureHistory
+    @public
+    @param {Object} options `perRecord` and `global` limits
+  */
+  configureHistory(options: RequestHistoryOptions) {
+    let limits = Object.assign({}, this._historyLimits, options);
+    assert(`The per record request history must keep at least one request`, limits.perRecord >= 1);
+    assert(`The request history limit must not be negative`, limits.global >= 0);
+    this._historyLimits = limits;
+
+    Object.keys(this._history).forEach((lid) => {
+      let entries = this._history[lid];
+      entries.splice(0, Math.max(0, entries.length - limits.perRecord));
     });
+    this._globalHistory.splice(0, Math.max(0, this._globalHistory.length - limits.global));
+  }
+
+  /**
+    Returns the most recently settled requests made by the store, oldest
+    first, with their timing and the status and headers of their response
+    when the adapter reported them (see `setResponseInfo`).
+
+    @method getRequestHistory
+    @public
+    @return {Array<RequestHistoryEntry>}
+  */
+  getRequestHistory(): RequestHistoryEntry[] {
+    return this._globalHistory.slice();
+  }
+
+  /**
+    Returns the most recently settled `findRecord` and save requests for
+    a record, oldest first. The history of a record is kept until it
+    is unloaded.
+
+    @method getRequestHistoryForRecord
+    @public
+    @param {StableRecordIdentifier} identifier
+    @return {Array<RequestHistoryEntry>}
+  */
+  getRequestHistoryForRecord(identifier: RecordIdentifier): RequestHistoryEntry[] {
+    let history = this._history[identifier.lid];
+    return history ? history.slice() : [];
+  }
+
+  /**
+    Subscribes to every request made by the store, including queries and
+    relationship fetches, as it starts and settles. Returns a function
+    which removes the subscription.
+
+    @method subscribe
+    @public
+    @param {Function} callback receives each `RequestState` as it changes
+    @return {Function} unsubscribe
+  */
+  subscribe(callback: RequestSubscription): () => void {
+    this._globalSubscriptions.push(callback);
+    return () => {
+      let index = this._globalSubscriptions.indexOf(callback);
+      if (index !== -1) {
+        this._globalSubscriptions.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+    Returns all requests which have not yet settled, in the order
+    they were made.
+
+    @method getPendingRequests
+    @public
+    @return {Array<RequestState>}
+  */
+  getPendingRequests(): RequestState[] {
+    return this._allPending.slice();
+  }
+
+  /**
+    Returns the identifiers of the records a request touched: the record
+    of a `findRecord` or save, and for collection requests both the records
+    known when it was made and those it loaded.
+
+    @method getIdentifiersForRequest
+    @public
+    @param {RequestState} request
+    @return {Array<StableRecordIdentifier>}
+  */
+  getIdentifiersForRequest(request: RequestState): RecordIdentifier[] {
+    return ((request as InternalRequest)[Touching] || []).slice();
   }
 
   subscribeForRecord(identifier: RecordIdentifier, callback: (requestState: RequestState) => void) {
@@ -119,10 +341,82 @@ export default class RequestCache {
     return [];
   }
 
+  /**
+    Records that the remote state of the given records was received,
+    which happens for `findRecord` automatically.
+
+    @method didFetch
+    @internal
+  */
+  didFetch(identifiers: RecordIdentifier[], fetchedAt: number = Date.now()) {
+    identifiers.forEach((identifier) => {
+      this._fetchedAt[identifier.lid] = fetchedAt;
+    });
+  }
+
+  /**
+    Records that the results of the query identified by `key` were received.
+
+    @method didFetchQuery
+    @internal
+  */
+  didFetchQuery(key: string, fetchedAt: number = Date.now()) {
+    this._queryFetchedAt[key] = fetchedAt;
+  }
+
+  /**
+    The time at which the remote state of a record was last received
+    by a request, or `null` if it never was.
+
+    @method getFetchedAt
+    @public
+  */
+  getFetchedAt(identifier: RecordIdentifier): number | null {
+    return this._fetchedAt[identifier.lid] || null;
+  }
+
+  /**
+    The time at which the results of a query were last received, or `null`.
+
+    @method getQueryFetchedAt
+    @public
+  */
+  getQueryFetchedAt(key: string): number | null {
+    return this._queryFetchedAt[key] || null;
+  }
+
+  /**
+    Records the version (`ETag`) of a record received with a response,
+    or that the version of the received record is unknown.
+
+    @method didReceiveVersion
+    @internal
+  */
+  didReceiveVersion(identifier: RecordIdentifier, version: string | null) {
+    if (version) {
+      this._versions[identifier.lid] = version;
+    } else {
+      delete this._versions[identifier.lid];
+    }
+  }
+
+  /**
+    The `ETag` received with the last `findRecord` or save response
+    for a record, or `null` if the response had none.
+
+    @method getVersion
+    @public
+    @param {StableRecordIdentifier} identifier
+    @return {String|null}
+  */
+  getVersion(identifier: RecordIdentifier): string | null {
+    return this._versions[identifier.lid] || null;
+  }
+
   getLastRequestForRecord(identifier: RecordIdentifier): RequestState | null {
-    let requests = this._done[identifier.lid];
-    if (requests) {
-      return requests[requests.length - 1];
+    let history = this._history[identifier.lid];
+    if (history) {
+      return history[history.length - 1].requestState;
     }
     return null;
   }
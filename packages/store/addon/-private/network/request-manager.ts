@@ -0,0 +1,154 @@
+/**
+ * @module @ember-data/store
+ */
+import { assert } from '@ember/debug';
+
+import { resolve } from 'rsvp';
+
+import type { AdapterPayload } from '@ember-data/types/q/minimum-adapter-interface';
+import type { Handler, RequestContext } from '@ember-data/types/q/request-manager';
+
+import { getResponseInfo } from './response-info';
+
+/**
+ * The RequestManager sits between the store and its adapters. Every
+ * request the store makes to an adapter (`findRecord`, `findMany`,
+ * `findAll`, `query`, `queryRecord`, `findHasMany`, `findBelongsTo`,
+ * the save operations, their batched counterparts and `commitTransaction`)
+ * is passed through an ordered chain of handlers before the adapter
+ * method itself is invoked.
+ *
+ * This allows cross-cutting concerns such as authentication, tracing
+ * or mocking to be composed instead of inherited.
+ *
+ * ```js
+ * class AuthHandler {
+ *   handle(context, next) {
+ *     context.options = Object.assign({}, context.options, { token: this.session.token });
+ *     return next(context);
+ *   }
+ * }
+ *
+ * export default class extends Store {
+ *   constructor() {
+ *     super(...arguments);
+ *     this.requestManager.use([new AuthHandler()]);
+ *   }
+ * }
+ * ```
+ *
+ * Handlers are called in the order they were registered; the adapter
+ * call is always the final (terminal) handler.
+ *
+ * @class RequestManager
+ * @public
+ */
+export default class RequestManager {
+  declare _handlers: Handler[];
+
+  constructor() {
+    this._handlers = [];
+  }
+
+  /**
+   * Appends handlers to the chain.
+   *
+   * @method use
+   * @public
+   * @param {Handler[]} newHandlers
+   */
+  use(newHandlers: Handler[]): void {
+    assert(`Expected an array of handlers to be passed to requestManager.use`, Array.isArray(newHandlers));
+    for (let i = 0; i < newHandlers.length; i++) {
+      const handler = newHandlers[i];
+      assert(
+        `Expected the handler at index ${i} to implement handle(context, next)`,
+        handler && typeof handler.handle === 'function'
+      );
+      this._handlers.push(handler);
+    }
+  }
+
+  /**
+   * Sends a request through the handler chain, resolving with the
+   * raw (un-normalized) adapter payload.
+   *
+   * @method request
+   * @internal
+   * @param {RequestContext} context
+   * @return {Promise} the adapter payload
+   */
+  request(context: RequestContext): Promise<AdapterPayload> {
+    const promise = executeNextHandler(this._handlers, context, 0);
+    const { requests } = context;
+    if (!requests) {
+      return promise;
+    }
+
+    const requestCache = context.store.getRequestStateService();
+    return promise.then(
+      (payload) => {
+        requestCache.didReceiveResponse(requests, getResponseInfo(payload));
+        return payload;
+      },
+      (error: unknown) => {
+        requestCache.didReceiveResponse(requests, getResponseInfo(error));
+        throw error;
+      }
+    );
+  }
+}
+
+function executeNextHandler(handlers: Handler[], context: RequestContext, i: number): Promise<AdapterPayload> {
+  if (i === handlers.length) {
+    return resolve().then(() => callAdapter(context));
+  }
+  const handler = handlers[i];
+  const next = (nextContext: RequestContext = context) => executeNextHandler(handlers, nextContext, i + 1);
+
+  return resolve().then(() => handler.handle(context, next));
+}
+
+function callAdapter(context: RequestContext): Promise<AdapterPayload> {
+  const promise = adapterRequest(context);
+  if (promise === undefined) {
+    throw new Error(`adapter.${context.op} returned undefined, this was very likely a mistake`);
+  }
+  return promise;
+}
+
+function adapterRequest(context: RequestContext): Promise<AdapterPayload> | undefined {
+  const { adapter, store, modelClass, modelName, op } = context;
+
+  assert(
+    `You tried to make a '${op}' request for ${modelName} but your adapter does not implement '${op}'`,
+    typeof adapter[op] === 'function'
+  );
+
+  switch (op) {
+    case 'findRecord':
+      return adapter.findRecord(store, modelClass, context.id as string, context.snapshot!);
+    case 'findMany':
+      return adapter.findMany!(store, modelClass, context.ids!, context.snapshots!);
+    case 'findAll':
+      return adapter.findAll(store, modelClass, null, context.snapshotRecordArray!);
+    case 'query':
+      return adapter.query(store, modelClass, context.query!, context.recordArray!, context.options!);
+    case 'queryRecord':
+      return adapter.queryRecord(store, modelClass, context.query!, context.options!);
+    case 'findHasMany':
+      return adapter.findHasMany!(store, context.snapshot!, context.link!, context.relationship!);
+    case 'findBelongsTo':
+      return adapter.findBelongsTo!(store, context.snapshot!, context.link!, context.relationship!);
+    case 'createRecord':
+    case 'updateRecord':
+    case 'deleteRecord':
+      return adapter[op](store, modelClass, context.snapshot!);
+    case 'createRecords':
+    case 'updateRecords':
+    case 'deleteRecords':
+      return adapter[op]!(store, modelClass, context.snapshots!);
+    case 'commitTransaction':
+      return adapter.commitTransaction!(store, context.snapshots!) as Promise<AdapterPayload>;
+  }
+}
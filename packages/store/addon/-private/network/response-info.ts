@@ -0,0 +1,52 @@
+/**
+ * @module @ember-data/store
+ */
+import type { ResponseInfo } from '@ember-data/types/q/fetch-manager';
+
+const RESPONSE_INFO = new WeakMap<object, ResponseInfo>();
+
+function isObject(value: unknown): value is object {
+  return value !== null && (typeof value === 'object' || typeof value === 'function');
+}
+
+/**
+  Associates the status and headers of a response with the payload
+  (or error) an adapter resolves (or rejects) with, making them available
+  in the request history of the store's request state service.
+
+  The `RESTAdapter` and `JSONAPIAdapter` do this automatically. Custom
+  adapters may do the same:
+
+  ```js
+  import { setResponseInfo } from '@ember-data/store';
+
+  async findRecord(store, type, id) {
+    const response = await fetch(`/api/${type.modelName}/${id}`);
+    const payload = await response.json();
+    setResponseInfo(payload, { status: response.status, headers: { etag: response.headers.get('etag') } });
+    return payload;
+  }
+  ```
+
+  Primitive payloads cannot carry response info and are ignored.
+
+  @method setResponseInfo
+  @public
+  @static
+  @for @ember-data/store
+  @param {Object} payload the adapter payload or error
+  @param {Object} info the `status`, `statusText` and `headers` of the response
+*/
+export function setResponseInfo(payload: unknown, info: ResponseInfo): void {
+  if (isObject(payload)) {
+    RESPONSE_INFO.set(payload, info);
+  }
+}
+
+/**
+  @method getResponseInfo
+  @internal
+*/
+export function getResponseInfo(payload: unknown): ResponseInfo | null {
+  return (isObject(payload) && RESPONSE_INFO.get(payload)) || null;
+}
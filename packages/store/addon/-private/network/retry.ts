@@ -0,0 +1,177 @@
+/**
+ * @module @ember-data/store
+ */
+import { Promise as RSVPPromise } from 'rsvp';
+
+import type { RetryPolicy } from '@ember-data/types/q/fetch-manager';
+import type { AdapterPayload } from '@ember-data/types/q/minimum-adapter-interface';
+import type { RequestContext } from '@ember-data/types/q/request-manager';
+
+import type Store from '../store-service';
+
+type AdapterErrorLike = Error & {
+  code?: string;
+  isAdapterError?: true;
+  status?: number | string;
+  errors?: { status?: number | string }[];
+};
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelay: 200,
+  maxDelay: 10000,
+  backoff: 'exponential',
+  jitter: 0.5,
+  retryableErrors: ['ServerError', 'TimeoutError'],
+  retryableStatuses: [408, 429, 502, 503, 504],
+  retryNetworkErrors: true,
+  retryableOperations: ['findRecord', 'findMany', 'updateRecord', 'deleteRecord', 'updateRecords', 'deleteRecords'],
+};
+
+function statusFor(error: AdapterErrorLike): number | null {
+  let status = error.status;
+  if (status === undefined && Array.isArray(error.errors) && error.errors.length) {
+    status = error.errors[0].status;
+  }
+  return status === undefined ? null : Number(status);
+}
+
+function isRetryableError(policy: Required<RetryPolicy>, error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+  const adapterError = error as AdapterErrorLike;
+
+  if (adapterError.isAdapterError) {
+    if (adapterError.code && policy.retryableErrors.includes(adapterError.code)) {
+      return true;
+    }
+    const status = statusFor(adapterError);
+    return status !== null && policy.retryableStatuses.includes(status);
+  }
+
+  // fetch rejects with a TypeError when the network request itself fails
+  return policy.retryNetworkErrors && error instanceof TypeError;
+}
+
+function isIdempotent(policy: Required<RetryPolicy>, context: RequestContext): boolean {
+  if (!policy.retryableOperations.includes(context.op)) {
+    return false;
+  }
+
+  // a retried create whose first attempt reached the server would produce a
+  // duplicate unless the server can recognize the record by a client-assigned id.
+  if (context.op === 'createRecord') {
+    return !!context.snapshot && context.snapshot.id !== null;
+  }
+  if (context.op === 'createRecords') {
+    return context.snapshots!.every((snapshot) => snapshot.id !== null);
+  }
+  if (context.op === 'commitTransaction') {
+    return context.snapshots!.every((snapshot) => snapshot.operation !== 'createRecord' || snapshot.id !== null);
+  }
+
+  return true;
+}
+
+function signalFor(context: RequestContext): AbortSignal | undefined {
+  return context.snapshot?.signal || context.snapshotRecordArray?.signal || context.options?.signal;
+}
+
+function isAborted(context: RequestContext): boolean {
+  const signal = signalFor(context);
+  return !!signal && signal.aborted;
+}
+
+function isDestroyed(store: Store): boolean {
+  return store.isDestroying || store.isDestroyed;
+}
+
+export function retryDelay(policy: Required<RetryPolicy>, attempt: number): number {
+  const { backoff, baseDelay, maxDelay, jitter } = policy;
+  let delay: number;
+
+  if (typeof backoff === 'function') {
+    delay = backoff(attempt, baseDelay);
+  } else if (backoff === 'linear') {
+    delay = baseDelay * attempt;
+  } else if (backoff === 'constant') {
+    delay = baseDelay;
+  } else {
+    delay = baseDelay * Math.pow(2, attempt - 1);
+  }
+
+  delay = Math.min(delay, maxDelay);
+
+  if (jitter > 0) {
+    delay = delay - delay * jitter * Math.random();
+  }
+
+  return Math.max(0, Math.round(delay));
+}
+
+// waits before the next attempt, rejecting with the error of the last attempt as
+// soon as the request is aborted or the store is destroyed, which calls each of `waits`
+function wait(ms: number, signal: AbortSignal | undefined, waits: Set<() => void>, error: unknown): Promise<void> {
+  return new RSVPPromise((resolve, reject) => {
+    const done = () => {
+      clearTimeout(timeout);
+      waits.delete(stop);
+      if (signal) {
+        signal.removeEventListener('abort', stop);
+      }
+    };
+    const stop = () => {
+      done();
+      reject(error);
+    };
+    const timeout = setTimeout(() => {
+      done();
+      resolve();
+    }, ms);
+    waits.add(stop);
+    if (signal) {
+      signal.addEventListener('abort', stop, { once: true });
+    }
+  });
+}
+
+/**
+ * Issues the request via the store's RequestManager, retrying failures
+ * according to the adapter's `retryPolicy`.
+ *
+ * @internal
+ */
+export function requestWithRetry(
+  store: Store,
+  context: RequestContext,
+  retryPolicy: RetryPolicy,
+  waits: Set<() => void>
+) {
+  const policy: Required<RetryPolicy> = Object.assign({}, DEFAULT_RETRY_POLICY, retryPolicy);
+  const canRetry = isIdempotent(policy, context);
+
+  const attemptRequest = (attempt: number): Promise<AdapterPayload> => {
+    return store.requestManager.request(context).catch((error: unknown) => {
+      if (
+        !canRetry ||
+        attempt >= policy.maxAttempts ||
+        isAborted(context) ||
+        isDestroyed(store) ||
+        !isRetryableError(policy, error)
+      ) {
+        throw error;
+      }
+
+      return wait(retryDelay(policy, attempt), signalFor(context), waits, error).then(() => {
+        // the timer may have fired while the request was aborted or the store destroyed
+        if (isAborted(context) || isDestroyed(store)) {
+          throw error;
+        }
+        return attemptRequest(attempt + 1);
+      });
+    });
+  };
+
+  return attemptRequest(1);
+}
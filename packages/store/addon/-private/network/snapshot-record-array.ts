@@ -28,6 +28,7 @@ export default class SnapshotRecordArray {
   declare meta: Dict<unknown> | null;
   declare adapterOptions?: Dict<unknown>;
   declare include?: string;
+  declare signal?: AbortSignal;
 
   /**
     SnapshotRecordArray is not directly instantiable.
@@ -148,6 +149,15 @@ export default class SnapshotRecordArray {
       @type {String|Array}
     */
     this.include = options.include;
+
+    /**
+      The AbortSignal passed into the store method for this request, if any.
+
+      @property signal
+      @public
+      @type {AbortSignal}
+    */
+    this.signal = options.signal;
   }
 
   /**
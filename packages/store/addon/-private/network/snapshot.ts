@@ -10,9 +10,10 @@ import { DEPRECATE_SNAPSHOT_MODEL_CLASS_ACCESS } from '@ember-data/private-build
 import type BelongsToRelationship from '@ember-data/record-data/addon/-private/relationships/state/belongs-to';
 import type ManyRelationship from '@ember-data/record-data/addon/-private/relationships/state/has-many';
 import type { DSModelSchema, ModelSchema } from '@ember-data/types/q/ds-model';
+import type { SaveOperation } from '@ember-data/types/q/fetch-manager';
 import type { StableRecordIdentifier } from '@ember-data/types/q/identifier';
 import type { OptionsHash } from '@ember-data/types/q/minimum-serializer-interface';
-import type { ChangedAttributesHash } from '@ember-data/types/q/record-data';
+import type { ChangedAttributesHash, ChangedRelationshipsHash } from '@ember-data/types/q/record-data';
 import type { AttributeSchema, RelationshipSchema } from '@ember-data/types/q/record-data-schemas';
 import type { RecordInstance } from '@ember-data/types/q/record-instance';
 import type { FindOptions } from '@ember-data/types/q/store';
@@ -41,12 +42,16 @@ export default class Snapshot implements Snapshot {
   private _hasManyRelationships: Dict<Snapshot[]> = Object.create(null);
   private _hasManyIds: Dict<RecordId[]> = Object.create(null);
   declare _changedAttributes: ChangedAttributesHash;
+  declare _changedRelationships: ChangedRelationshipsHash | null;
 
   declare identifier: StableRecordIdentifier;
   declare modelName: string;
   declare id: string | null;
   declare include?: unknown;
   declare adapterOptions?: Dict<unknown>;
+  declare signal?: AbortSignal;
+  declare operation?: SaveOperation;
+  declare version: string | null;
 
   /**
    * @method constructor
@@ -114,6 +119,40 @@ export default class Snapshot implements Snapshot {
      */
     this.include = options.include;
 
+    /**
+     If a `signal` was passed to the options hash for the request, the
+     value will be available here. Adapters should hand it to `fetch` so
+     that aborting the signal cancels the underlying network request.
+
+     @property signal
+     @type {AbortSignal}
+     @public
+     */
+    this.signal = options.signal;
+
+    /**
+     For snapshots of a record being saved, the save operation the
+     snapshot is for: `createRecord`, `updateRecord` or `deleteRecord`.
+
+     @property operation
+     @type {String}
+     @public
+     */
+    this.operation = undefined;
+
+    /**
+     For snapshots of a record being saved, the version of the record
+     the save is based on: the `ETag` it was last received with, or the
+     value of its version attribute (see `store.setVersionAttribute`).
+     Adapters send it as `If-Match` so that the server can refuse to
+     overwrite changes made in the meantime.
+
+     @property version
+     @type {String|null}
+     @public
+     */
+    this.version = null;
+
     /**
      The name of the type of the underlying record for this snapshot, as a string.
 
@@ -122,8 +161,13 @@ export default class Snapshot implements Snapshot {
      @public
      */
     this.modelName = identifier.type;
+    this._changedRelationships = null;
     if (hasRecord) {
-      this._changedAttributes = this._store._instanceCache.getRecordData(identifier).changedAttributes();
+      const recordData = this._store._instanceCache.getRecordData(identifier);
+      this._changedAttributes = recordData.changedAttributes();
+      if (typeof recordData.changedRelationships === 'function') {
+        this._changedRelationships = recordData.changedRelationships();
+      }
     }
   }
 
@@ -255,6 +299,30 @@ export default class Snapshot implements Snapshot {
     return changedAttributes;
   }
 
+  /**
+   Returns the relationships whose local state differs from the state
+   last received from the server, with the identifiers of their old and
+   new related records.
+
+   Example
+
+   ```javascript
+   // store.push('comment', { id: 1, relationships: { post: { data: { type: 'post', id: '1' } } } });
+   commentModel.post = otherPost;
+   commentSnapshot.changedRelationships(); // => { post: [{ type: 'post', id: '1', lid }, { type: 'post', id: '2', lid }] }
+   ```
+
+   Relationships are only tracked by RecordData implementations which
+   provide `changedRelationships`, otherwise this is always empty.
+
+   @method changedRelationships
+   @return {Object} All changed relationships of the current snapshot
+   @public
+   */
+  changedRelationships(): ChangedRelationshipsHash {
+    return Object.assign(Object.create(null), this._changedRelationships) as ChangedRelationshipsHash;
+  }
+
   /**
    Returns the current value of a belongsTo relationship.
 
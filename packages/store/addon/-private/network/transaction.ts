@@ -0,0 +1,141 @@
+/**
+ * @module @ember-data/store
+ */
+import { assert } from '@ember/debug';
+
+import { resolve } from 'rsvp';
+
+import type { SaveOperation } from '@ember-data/types/q/fetch-manager';
+import type { StableRecordIdentifier } from '@ember-data/types/q/identifier';
+import type { JsonApiValidationError } from '@ember-data/types/q/record-data-json-api';
+import type { RecordInstance } from '@ember-data/types/q/record-instance';
+import type { Dict } from '@ember-data/types/q/utils';
+
+import { recordDataIsFullyDeleted, recordIdentifierFor } from '../caches/instance-cache';
+import type Store from '../store-service';
+import { SaveOp } from './fetch-manager';
+
+interface TransactionSave {
+  identifier: StableRecordIdentifier;
+  options: Dict<unknown>;
+}
+
+interface CommittingSave extends TransactionSave {
+  operation: SaveOperation;
+  checkpoint: unknown;
+}
+
+/**
+  Collects the saves made within `store.transaction`, which are sent
+  to the adapter's `commitTransaction` hook together once the
+  transaction's callback has completed.
+
+  It is exported for use in type signatures; instances are created by
+  `store.transaction` and should not be instantiated by applications.
+
+  @class Transaction
+  @public
+*/
+export default class Transaction {
+  declare _store: Store;
+  declare _saves: TransactionSave[];
+  declare isCommitted: boolean;
+
+  constructor(store: Store) {
+    this._store = store;
+    this._saves = [];
+    this.isCommitted = false;
+  }
+
+  /**
+    Adds the local changes of a record to the transaction. Creates,
+    updates and deletes are determined by the state of the record
+    when the transaction is committed, as with `record.save()`.
+
+    @method save
+    @public
+    @param {Model} record
+    @param {Object} options the options `record.save()` accepts
+  */
+  save(record: RecordInstance, options: Dict<unknown> = {}): void {
+    assert(`Cannot add a record to a transaction which has already been committed`, !this.isCommitted);
+    const identifier = recordIdentifierFor(record);
+    assert(
+      `The record ${String(identifier)} has already been added to this transaction`,
+      !this._saves.some((save) => save.identifier === identifier)
+    );
+    this._saves.push({ identifier, options });
+  }
+
+  /**
+    @method _commit
+    @internal
+  */
+  _commit(): Promise<void> {
+    this.isCommitted = true;
+    const store = this._store;
+    const cache = store._instanceCache;
+    const saves: CommittingSave[] = [];
+
+    this._saves.forEach(({ identifier, options }) => {
+      const recordData = cache.peek({ identifier, bucket: 'recordData' });
+      assert(
+        `Cannot save the unloaded record ${String(identifier)} in a transaction`,
+        recordData && cache.recordIsLoaded(identifier)
+      );
+      if (recordDataIsFullyDeleted(cache, identifier)) {
+        return;
+      }
+      const record = cache.getRecord(identifier);
+      const { operation, checkpoint } = store._willCommitSave(record, recordData, options);
+      saves.push({ identifier, options, operation, checkpoint });
+    });
+
+    if (saves.length === 0) {
+      return resolve();
+    }
+
+    return store._fetchManager
+      .commitTransaction(
+        saves.map(({ identifier, options, operation }) => ({
+          identifier,
+          options: Object.assign({ [SaveOp]: operation }, options),
+        }))
+      )
+      .then(
+        (payloads) => {
+          store._backburner.join(() => {
+            saves.forEach(({ identifier, operation }, i) => store._didCommitSave(identifier, operation, payloads[i]));
+          });
+        },
+        (e: (Error & { recordErrors?: JsonApiValidationError[][] }) | string | undefined) => {
+          let error = e as Error & { recordErrors?: JsonApiValidationError[][] };
+          if (!e) {
+            error = new Error(`Unknown Error Occurred During Request`);
+          } else if (typeof e === 'string') {
+            error = new Error(e);
+          }
+          // the records are rejected together, with the errors the adapter attributed to each
+          const { recordErrors } = error;
+          saves.forEach(({ identifier, checkpoint }, i) => {
+            const recordData = cache.getRecordData(identifier);
+            const errors = recordErrors && recordErrors[i];
+            if (!recordErrors) {
+              // as when a single save fails
+              store._didRejectSave(identifier, error);
+            } else if (errors && errors.length) {
+              // the record is rejected with its own errors, which its serializer maps to attributes
+              store._didRejectSave(identifier, Object.assign(Object.create(error) as Error, { errors }));
+            } else {
+              // the errors of the transaction belong to other records
+              recordData.commitWasRejected(identifier);
+            }
+            if (checkpoint !== null) {
+              recordData.restoreCheckpoint!(checkpoint);
+            }
+          });
+          throw error;
+        }
+      );
+  }
+}
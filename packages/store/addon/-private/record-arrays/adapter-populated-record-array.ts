@@ -1,10 +1,11 @@
 import type NativeArray from '@ember/array/-private/native-array';
 import { assert } from '@ember/debug';
+import { tracked } from '@glimmer/tracking';
 
 import type { CollectionResourceDocument, Links, Meta, PaginationLinks } from '@ember-data/types/q/ember-data-json-api';
 import type { StableRecordIdentifier } from '@ember-data/types/q/identifier';
 import type { RecordInstance } from '@ember-data/types/q/record-instance';
-import type { FindOptions } from '@ember-data/types/q/store';
+import type { FindOptions, PaginationOptions, QueryPage } from '@ember-data/types/q/store';
 import type { Dict } from '@ember-data/types/q/utils';
 
 import type RecordArrayManager from '../managers/record-array-manager';
@@ -12,8 +13,12 @@ import SnapshotRecordArray from '../network/snapshot-record-array';
 import type { PromiseArray } from '../proxies/promise-proxies';
 import { promiseArray } from '../proxies/promise-proxies';
 import type Store from '../store-service';
+import type { Pagination } from './pagination';
+import { resolvePagination } from './pagination';
 import RecordArray from './record-array';
 
+type PageMode = 'append' | 'prepend' | null;
+
 export interface AdapterPopulatedRecordArrayCreateArgs {
   modelName: string;
   store: Store;
@@ -63,6 +68,29 @@ export interface AdapterPopulatedRecordArrayCreateArgs {
   }
   ```
 
+  The pages of a query can be followed with `loadNext`, `loadPrev` and
+  `loadPage`. By default the JSON:API `links.next` and `links.prev` of the
+  response are followed; the `pagination` option of `store.query` selects
+  another strategy and enables an infinite mode in which each page that is
+  loaded is added to the records already in the array.
+
+  Only the query params of a link are followed: the page is loaded with
+  `query` from the URL the adapter builds for the type, so links must point
+  to the same endpoint as the query, such as `/posts?page[number]=2`.
+
+  ```javascript
+  // GET /posts?page[offset]=0&page[limit]=20
+  let posts = await store.query('post', { page: { offset: 0, limit: 20 } }, {
+    pagination: { strategy: 'offset', infinite: true },
+  });
+
+  if (posts.hasNext) {
+    // GET /posts?page[offset]=20&page[limit]=20
+    await posts.loadNext();
+    posts.length; // 40
+  }
+  ```
+
   @class AdapterPopulatedRecordArray
   @public
   @extends RecordArray
@@ -71,6 +99,11 @@ export default class AdapterPopulatedRecordArray extends RecordArray {
   declare links: Links | PaginationLinks | null;
   declare meta: Dict<unknown> | null;
   declare query: Dict<unknown> | null;
+  declare _pagination: Pagination;
+  declare _pendingPage: { query: Dict<unknown>; mode: PageMode } | null;
+  // the first and last of the pages loaded, which differ only in infinite mode
+  @tracked _head: QueryPage | null = null;
+  @tracked _tail: QueryPage | null = null;
 
   init(props?: AdapterPopulatedRecordArrayCreateArgs) {
     assert(`Cannot initialize AdapterPopulatedRecordArray with isUpdating`, !props || !('isUpdating' in props));
@@ -78,6 +111,106 @@ export default class AdapterPopulatedRecordArray extends RecordArray {
     this.query = this.query || null;
     this.links = this.links || null;
     this.meta = this.meta || null;
+    this._pagination = resolvePagination();
+    this._pendingPage = null;
+  }
+
+  _setPagination(options: PaginationOptions): void {
+    this._pagination = resolvePagination(options);
+  }
+
+  _currentPage(): QueryPage {
+    return { query: this.query || {}, meta: this.meta, links: this.links, length: this.content.length };
+  }
+
+  /**
+    Whether the pagination strategy found a page after the last page loaded.
+
+    @property hasNext
+    @public
+    @type {Boolean}
+  */
+  get hasNext(): boolean {
+    return this._pagination.strategy.next(this._tail || this._currentPage()) !== null;
+  }
+
+  /**
+    Whether the pagination strategy found a page before the first page loaded.
+
+    @property hasPrev
+    @public
+    @type {Boolean}
+  */
+  get hasPrev(): boolean {
+    return this._pagination.strategy.prev(this._head || this._currentPage()) !== null;
+  }
+
+  /**
+    Loads the page after the last page loaded. In infinite mode its records
+    are added to the end of the array, otherwise they replace its contents.
+
+    @method loadNext
+    @public
+    @return {PromiseArray} resolves with this record array once the page is loaded
+  */
+  loadNext(): PromiseArray<RecordInstance, AdapterPopulatedRecordArray> {
+    const query = this._pagination.strategy.next(this._tail || this._currentPage());
+    assert(`There is no next page of the ${this.modelName} query to load`, query);
+    return this._loadPage(query, this._pagination.infinite ? 'append' : null);
+  }
+
+  /**
+    Loads the page before the first page loaded. In infinite mode its records
+    are added to the start of the array, otherwise they replace its contents.
+
+    @method loadPrev
+    @public
+    @return {PromiseArray} resolves with this record array once the page is loaded
+  */
+  loadPrev(): PromiseArray<RecordInstance, AdapterPopulatedRecordArray> {
+    const query = this._pagination.strategy.prev(this._head || this._currentPage());
+    assert(`There is no previous page of the ${this.modelName} query to load`, query);
+    return this._loadPage(query, this._pagination.infinite ? 'prepend' : null);
+  }
+
+  /**
+    Loads the page with the given number, counting from 1, replacing the
+    contents of the array even in infinite mode.
+
+    @method loadPage
+    @public
+    @param {Number} number
+    @return {PromiseArray} resolves with this record array once the page is loaded
+  */
+  loadPage(number: number): PromiseArray<RecordInstance, AdapterPopulatedRecordArray> {
+    const { strategy } = this._pagination;
+    assert(`Expected the page number to be an integer of at least 1, got ${number}`, number >= 1 && number % 1 === 0);
+    assert(
+      `The pagination strategy of the ${this.modelName} query cannot load pages by number`,
+      typeof strategy.page === 'function'
+    );
+    const query = strategy.page(this._tail || this._currentPage(), number);
+    assert(`There is no page ${number} of the ${this.modelName} query to load`, query);
+    return this._loadPage(query, null);
+  }
+
+  _loadPage(query: Dict<unknown>, mode: PageMode): PromiseArray<RecordInstance, AdapterPopulatedRecordArray> {
+    assert(`Cannot load a page of the ${this.modelName} query while it is updating`, !this.isUpdating);
+    this.isUpdating = true;
+    this._pendingPage = { query, mode };
+
+    const promise = this.store.query(this.modelName, query, { _recordArray: this });
+    promise.finally(() => {
+      this._updatingPromise = null;
+      this._pendingPage = null;
+      if (this.isDestroying || this.isDestroyed) {
+        return;
+      }
+      this.isUpdating = false;
+    });
+    this._updatingPromise = promise;
+
+    return promise;
   }
 
   replace() {
@@ -92,10 +225,33 @@ export default class AdapterPopulatedRecordArray extends RecordArray {
   }
 
   _setObjects(identifiers: StableRecordIdentifier[], payload: CollectionResourceDocument) {
-    // TODO: initial load should not cause change events at all, only
-    // subsequent. This requires changing the public api of adapter.query, but
-    // hopefully we can do that soon.
-    this.content.setObjects(identifiers);
+    const pending = this._pendingPage;
+    const mode = pending ? pending.mode : null;
+    const page: QueryPage = {
+      query: pending ? pending.query : this.query || {},
+      meta: payload.meta || null,
+      links: payload.links || null,
+      length: identifiers.length,
+    };
+
+    if (mode === null) {
+      // TODO: initial load should not cause change events at all, only
+      // subsequent. This requires changing the public api of adapter.query, but
+      // hopefully we can do that soon.
+      this.content.setObjects(identifiers);
+      this.query = page.query;
+      this._head = this._tail = page;
+    } else {
+      // a record may have moved between pages since the last one was loaded
+      const added = identifiers.filter((identifier) => !this.content.includes(identifier));
+      if (mode === 'append') {
+        this.content.pushObjects(added);
+        this._tail = page;
+      } else {
+        this.content.unshiftObjects(added);
+        this._head = page;
+      }
+    }
 
     this.setProperties({
       isLoaded: true,
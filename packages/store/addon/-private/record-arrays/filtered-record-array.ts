@@ -0,0 +1,140 @@
+import type { StableRecordIdentifier } from '@ember-data/types/q/identifier';
+import type { RecordInstance } from '@ember-data/types/q/record-instance';
+import type { FilterOptions } from '@ember-data/types/q/store';
+
+import type { NotificationType } from '../managers/record-notification-manager';
+import type { RecordArrayCreateArgs } from './record-array';
+import RecordArray from './record-array';
+
+export interface FilteredRecordArrayCreateArgs extends RecordArrayCreateArgs, FilterOptions {}
+
+/**
+  @module @ember-data/store
+*/
+
+/**
+  A live record array holding the loaded records of a type that match a
+  predicate, optionally kept sorted by a comparator. It is returned by
+  `store.filter`.
+
+  Like the array returned by `peekAll`, it is updated as records are
+  loaded, changed and unloaded, but only the records that changed are
+  tested against the predicate again, and only they are moved when the
+  array is sorted. The store updates the array until it is destroyed, so
+  it must be destroyed once it is no longer used.
+
+  ```javascript
+  let drafts = store.filter('post', {
+    where: (post) => post.isDraft,
+    sort: (a, b) => a.title.localeCompare(b.title),
+    dependentKeys: ['isDraft', 'title'],
+  });
+  ```
+
+  This class should not be imported and instantiated by consuming applications.
+
+  @class FilteredRecordArray
+  @public
+  @extends RecordArray
+*/
+export default class FilteredRecordArray extends RecordArray {
+  declare where?: (record: RecordInstance) => boolean;
+  declare sort?: (a: RecordInstance, b: RecordInstance) => number;
+  declare dependentKeys?: string[];
+
+  /**
+    Whether a change to the field of a record can change its membership
+    or its position in the array. A dependent key only matches changes of
+    its own kind, an attribute or a relationship of the type.
+
+    @method _dependsOn
+    @internal
+  */
+  _dependsOn(type: NotificationType, key?: string): boolean {
+    const { dependentKeys } = this;
+    if (!dependentKeys || key === undefined) {
+      return type === 'attributes';
+    }
+    if (dependentKeys.indexOf(key) === -1) {
+      return false;
+    }
+    const schema = this.store.getSchemaDefinitionService();
+    const identifier = { type: this.modelName };
+    if (type === 'attributes') {
+      return key in schema.attributesDefinitionFor(identifier);
+    }
+    if (type === 'relationships') {
+      return key in schema.relationshipsDefinitionFor(identifier);
+    }
+    return false;
+  }
+
+  /**
+    Adds, removes or moves the given identifiers according to whether
+    their records are loaded and match.
+
+    @method _evaluate
+    @internal
+    @param {StableRecordIdentifier[]} identifiers
+  */
+  _evaluate(identifiers: StableRecordIdentifier[]): void {
+    const cache = this.store._instanceCache;
+    const toRemove: StableRecordIdentifier[] = [];
+    const toInsert: StableRecordIdentifier[] = [];
+
+    for (let i = 0; i < identifiers.length; i++) {
+      const identifier = identifiers[i];
+      const recordArrays = this.manager.getRecordArraysForIdentifier(identifier);
+      const isMember = recordArrays.has(this);
+
+      if (cache.recordIsLoaded(identifier, true) && this._matches(identifier)) {
+        if (!isMember) {
+          recordArrays.add(this);
+          toInsert.push(identifier);
+        } else if (this.sort) {
+          // the change may have moved it
+          toRemove.push(identifier);
+          toInsert.push(identifier);
+        }
+      } else if (isMember) {
+        recordArrays.delete(this);
+        toRemove.push(identifier);
+      }
+    }
+
+    if (toRemove.length) {
+      this._removeIdentifiers(toRemove);
+    }
+    if (!toInsert.length) {
+      return;
+    }
+    if (this.sort) {
+      toInsert.forEach((identifier) => this.content.insertAt(this._indexFor(identifier), identifier));
+    } else {
+      this._pushIdentifiers(toInsert);
+    }
+  }
+
+  _matches(identifier: StableRecordIdentifier): boolean {
+    return !this.where || this.where(this.store._instanceCache.getRecord(identifier));
+  }
+
+  // the index after the last record that does not sort after it
+  _indexFor(identifier: StableRecordIdentifier): number {
+    const sort = this.sort!;
+    const cache = this.store._instanceCache;
+    const record = cache.getRecord(identifier);
+    let low = 0;
+    let high = this.content.length;
+
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (sort(cache.getRecord(this.content.objectAt(middle)!), record) <= 0) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+}
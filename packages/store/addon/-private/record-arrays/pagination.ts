@@ -0,0 +1,144 @@
+/**
+ * @module @ember-data/store
+ */
+import { assert } from '@ember/debug';
+
+import type { Link } from '@ember-data/types/q/ember-data-json-api';
+import type { PaginationOptions, PaginationStrategy, QueryPage } from '@ember-data/types/q/store';
+import type { Dict } from '@ember-data/types/q/utils';
+
+export interface Pagination {
+  strategy: PaginationStrategy;
+  infinite: boolean;
+}
+
+// 'page[number]' => ['page', 'number']
+function paramPath(param: string): string[] {
+  return param.replace(/\]/g, '').split('[');
+}
+
+function getParam(query: Dict<unknown>, param: string): unknown {
+  if (param in query) {
+    return query[param];
+  }
+  let value: unknown = query;
+  for (const key of paramPath(param)) {
+    if (!value || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Dict<unknown>)[key];
+  }
+  return value;
+}
+
+// returns a copy of the query with the param set, copying the objects along its path
+function setParam(query: Dict<unknown>, param: string, value: unknown): Dict<unknown> {
+  const result = Object.assign({}, query);
+  if (param in query) {
+    result[param] = value;
+    return result;
+  }
+  const path = paramPath(param);
+  let target = result;
+  for (let i = 0; i < path.length - 1; i++) {
+    const current = target[path[i]];
+    const next = current && typeof current === 'object' ? Object.assign({}, current as Dict<unknown>) : {};
+    target[path[i]] = next;
+    target = next;
+  }
+  target[path[path.length - 1]] = value;
+  return result;
+}
+
+function hrefFor(link: Link | null | undefined): string | null {
+  if (!link) {
+    return null;
+  }
+  return typeof link === 'string' ? link : link.href;
+}
+
+/*
+  Reads the query params of a pagination link into a query, so that
+  the page can be loaded through the adapter's `query` like any other.
+  The path of the link is not used: the page is requested from the URL
+  the adapter builds for the query, so links to another endpoint need a
+  custom strategy.
+*/
+function queryFromLink(link: Link | null | undefined): Dict<unknown> | null {
+  const href = hrefFor(link);
+  if (!href) {
+    return null;
+  }
+  const search = href.split('#')[0].split('?')[1] || '';
+  let query: Dict<unknown> = {};
+  search.split('&').forEach((pair) => {
+    if (!pair) {
+      return;
+    }
+    const [key, value = ''] = pair.split('=').map((part) => decodeURIComponent(part.replace(/\+/g, ' ')));
+    query = setParam(query, key, value);
+  });
+  return query;
+}
+
+function linksStrategy(pageParam: string): PaginationStrategy {
+  return {
+    next(page: QueryPage) {
+      return queryFromLink(page.links && (page.links as { next?: Link | null }).next);
+    },
+    prev(page: QueryPage) {
+      return queryFromLink(page.links && (page.links as { prev?: Link | null }).prev);
+    },
+    page(page: QueryPage, number: number) {
+      return setParam(page.query, pageParam, number);
+    },
+  };
+}
+
+function offsetStrategy(offsetParam: string, limitParam: string): PaginationStrategy {
+  function limitOf(page: QueryPage): number {
+    const limit = Number(getParam(page.query, limitParam));
+    assert(`The offset pagination strategy requires the query to set '${limitParam}'`, limit > 0);
+    return limit;
+  }
+  function offsetOf(page: QueryPage): number {
+    return Number(getParam(page.query, offsetParam)) || 0;
+  }
+
+  return {
+    next(page: QueryPage) {
+      const limit = limitOf(page);
+      const offset = offsetOf(page) + limit;
+      const total = page.meta && typeof page.meta.total === 'number' ? page.meta.total : null;
+      // a short page is the last one
+      if (page.length < limit || (total !== null && offset >= total)) {
+        return null;
+      }
+      return setParam(page.query, offsetParam, offset);
+    },
+    prev(page: QueryPage) {
+      const offset = offsetOf(page);
+      if (offset <= 0) {
+        return null;
+      }
+      return setParam(page.query, offsetParam, Math.max(0, offset - limitOf(page)));
+    },
+    page(page: QueryPage, number: number) {
+      return setParam(page.query, offsetParam, (number - 1) * limitOf(page));
+    },
+  };
+}
+
+export function resolvePagination(options: PaginationOptions = {}): Pagination {
+  let { strategy = 'links' } = options;
+  if (strategy === 'links') {
+    strategy = linksStrategy(options.pageParam || 'page[number]');
+  } else if (strategy === 'offset') {
+    strategy = offsetStrategy(options.offsetParam || 'page[offset]', options.limitParam || 'page[limit]');
+  }
+  assert(
+    `Expected the pagination strategy to be 'links', 'offset' or an object with next and prev methods`,
+    typeof strategy === 'object' && typeof strategy.next === 'function' && typeof strategy.prev === 'function'
+  );
+  return { strategy, infinite: options.infinite === true };
+}
@@ -201,6 +201,10 @@ export default class RecordArray extends ArrayProxy<StableRecordIdentifier, Reco
     messages.save();
     ```
 
+    Each record is saved individually, unless the adapter implements
+    `createRecords`, `updateRecords` or `deleteRecords`, in which case
+    the saves are sent together in a single request.
+
     @method save
     @public
     @return {PromiseArray} promise
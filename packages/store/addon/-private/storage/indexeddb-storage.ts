@@ -0,0 +1,73 @@
+/**
+ * @module @ember-data/store
+ */
+import { assert } from '@ember/debug';
+
+import { Promise as RSVPPromise } from 'rsvp';
+
+import type { PersistentStorage } from '@ember-data/types/q/persistent-storage';
+
+const OBJECT_STORE = 'ember-data';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new RSVPPromise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * A `PersistentStorage` backend which stores values in an IndexedDB
+ * object store. The database is opened lazily on first use.
+ *
+ * ```js
+ * import { IndexedDBStorage } from '@ember-data/store';
+ *
+ * const storage = new IndexedDBStorage({ name: 'my-app' });
+ * ```
+ *
+ * @class IndexedDBStorage
+ * @public
+ */
+export default class IndexedDBStorage implements PersistentStorage {
+  declare _name: string;
+  declare _db: Promise<IDBDatabase> | null;
+
+  constructor(options: { name?: string } = {}) {
+    this._name = options.name || 'ember-data';
+    this._db = null;
+  }
+
+  _open(): Promise<IDBDatabase> {
+    if (this._db === null) {
+      assert(
+        `IndexedDBStorage requires IndexedDB, which is unavailable in this environment`,
+        typeof indexedDB !== 'undefined'
+      );
+      let request = indexedDB.open(this._name, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(OBJECT_STORE);
+      };
+      this._db = promisify(request);
+    }
+    return this._db;
+  }
+
+  _objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    return this._open().then((db) => db.transaction(OBJECT_STORE, mode).objectStore(OBJECT_STORE));
+  }
+
+  getItem(key: string): Promise<unknown> {
+    return this._objectStore('readonly')
+      .then((store) => promisify<unknown>(store.get(key)))
+      .then((value) => (value === undefined ? null : value));
+  }
+
+  setItem(key: string, value: unknown): Promise<void> {
+    return this._objectStore('readwrite').then((store) => promisify(store.put(value, key)).then(() => {}));
+  }
+
+  removeItem(key: string): Promise<void> {
+    return this._objectStore('readwrite').then((store) => promisify(store.delete(key)));
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * @module @ember-data/store
+ */
+import type { PersistentStorage } from '@ember-data/types/q/persistent-storage';
+import type { Dict } from '@ember-data/types/q/utils';
+
+/**
+ * An in-memory `PersistentStorage` backend. Values are copied on the
+ * way in and out so that callers can never share references with the
+ * stored data, matching the behavior of the durable backends.
+ *
+ * Primarily useful in tests, or to share a backend between several
+ * store instances within a single page.
+ *
+ * @class MemoryStorage
+ * @public
+ */
+export default class MemoryStorage implements PersistentStorage {
+  declare _data: Dict<string>;
+
+  constructor() {
+    this._data = Object.create(null) as Dict<string>;
+  }
+
+  getItem(key: string): unknown {
+    let value = this._data[key];
+    return value === undefined ? null : JSON.parse(value);
+  }
+
+  setItem(key: string, value: unknown): void {
+    this._data[key] = JSON.stringify(value);
+  }
+
+  removeItem(key: string): void {
+    delete this._data[key];
+  }
+}
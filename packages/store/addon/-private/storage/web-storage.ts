@@ -0,0 +1,45 @@
+/**
+ * @module @ember-data/store
+ */
+import { assert } from '@ember/debug';
+
+import type { PersistentStorage } from '@ember-data/types/q/persistent-storage';
+
+/**
+ * A `PersistentStorage` backend built on the Web Storage API. By default
+ * `window.localStorage` is used, but any `Storage` (for instance
+ * `sessionStorage`) may be provided.
+ *
+ * ```js
+ * import { WebStorage } from '@ember-data/store';
+ *
+ * const storage = new WebStorage({ prefix: 'my-app:' });
+ * ```
+ *
+ * @class WebStorage
+ * @public
+ */
+export default class WebStorage implements PersistentStorage {
+  declare _storage: Storage;
+  declare _prefix: string;
+
+  constructor(options: { storage?: Storage; prefix?: string } = {}) {
+    let storage = options.storage || (typeof localStorage !== 'undefined' ? localStorage : undefined);
+    assert(`WebStorage requires a Storage instance, but none was provided and localStorage is unavailable`, storage);
+    this._storage = storage;
+    this._prefix = options.prefix || '';
+  }
+
+  getItem(key: string): unknown {
+    let value = this._storage.getItem(this._prefix + key);
+    return value === null ? null : JSON.parse(value);
+  }
+
+  setItem(key: string, value: unknown): void {
+    this._storage.setItem(this._prefix + key, JSON.stringify(value));
+  }
+
+  removeItem(key: string): void {
+    this._storage.removeItem(this._prefix + key);
+  }
+}
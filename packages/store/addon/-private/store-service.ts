@@ -2,6 +2,8 @@
   @module @ember-data/store
  */
 import { getOwner, setOwner } from '@ember/application';
+import { A } from '@ember/array';
+import type NativeArray from '@ember/array/-private/native-array';
 import { assert, deprecate } from '@ember/debug';
 import { _backburner as emberBackburner, run } from '@ember/runloop';
 import type { Backburner } from '@ember/runloop/-private/backburner';
@@ -10,7 +12,7 @@ import { registerWaiter, unregisterWaiter } from '@ember/test';
 import { DEBUG } from '@glimmer/env';
 
 import { importSync } from '@embroider/macros';
-import { reject, resolve } from 'rsvp';
+import { Promise as RSVPPromise, reject, resolve } from 'rsvp';
 
 import type DSModelClass from '@ember-data/model';
 import { HAS_MODEL_PACKAGE, HAS_RECORD_DATA_PACKAGE } from '@ember-data/private-build-infra';
@@ -28,19 +30,23 @@ import type {
   ResourceIdentifierObject,
   SingleResourceDocument,
 } from '@ember-data/types/q/ember-data-json-api';
+import type { CachePolicy, CacheStatus, OfflineQueueOptions, SaveOperation } from '@ember-data/types/q/fetch-manager';
 import type { StableExistingRecordIdentifier, StableRecordIdentifier } from '@ember-data/types/q/identifier';
 import type { MinimumAdapterInterface } from '@ember-data/types/q/minimum-adapter-interface';
 import type { MinimumSerializerInterface } from '@ember-data/types/q/minimum-serializer-interface';
-import type { RecordData } from '@ember-data/types/q/record-data';
+import type { PersistentCacheOptions } from '@ember-data/types/q/persistent-storage';
+import type { RealtimeSource } from '@ember-data/types/q/realtime';
+import type { MergeStrategy, RecordData } from '@ember-data/types/q/record-data';
 import { JsonApiValidationError } from '@ember-data/types/q/record-data-json-api';
 import type { RecordDataWrapper } from '@ember-data/types/q/record-data-record-wrapper';
 import type { RecordInstance } from '@ember-data/types/q/record-instance';
 import type { SchemaDefinitionService } from '@ember-data/types/q/schema-definition-service';
-import type { FindOptions } from '@ember-data/types/q/store';
+import type { FilterOptions, FindOptions, IndexOptions, LocalQuery } from '@ember-data/types/q/store';
 import type { Dict } from '@ember-data/types/q/utils';
 
 import edBackburner from './backburner';
 import { IdentifierCache } from './caches/identifier-cache';
+import IndexCache from './caches/index-cache';
 import {
   InstanceCache,
   peekRecordIdentifier,
@@ -50,6 +56,9 @@ import {
   storeFor,
   StoreMap,
 } from './caches/instance-cache';
+import peekQuery from './caches/local-query';
+import PersistentCache from './caches/persistent-cache';
+import QueryCache from './caches/query-cache';
 import { setRecordDataFor } from './caches/record-data-for';
 import RecordReference from './legacy-model-support/record-reference';
 import { DSModelSchemaDefinitionService, getModelFactory } from './legacy-model-support/schema-definition-service';
@@ -58,11 +67,18 @@ import { getShimClass } from './legacy-model-support/shim-model-class';
 import RecordArrayManager from './managers/record-array-manager';
 import RecordDataStoreWrapper from './managers/record-data-store-wrapper';
 import NotificationManager from './managers/record-notification-manager';
+import StoreNotifications from './managers/store-notifications';
+import { cacheStatus, queryCacheKey, withStaleIfError } from './network/cache-policy';
+import { dedupe, dedupeKey } from './network/dedupe';
 import FetchManager, { SaveOp } from './network/fetch-manager';
 import { _findAll, _query, _queryRecord } from './network/finders';
+import RealtimeConnection from './network/realtime';
 import type RequestCache from './network/request-cache';
+import RequestManager from './network/request-manager';
+import Transaction from './network/transaction';
 import { PromiseArray, promiseArray, PromiseObject, promiseObject } from './proxies/promise-proxies';
 import AdapterPopulatedRecordArray from './record-arrays/adapter-populated-record-array';
+import type FilteredRecordArray from './record-arrays/filtered-record-array';
 import RecordArray from './record-arrays/record-array';
 import coerceId, { ensureStringId } from './utils/coerce-id';
 import constructResource from './utils/construct-resource';
@@ -179,13 +195,22 @@ class Store extends Service {
   declare recordArrayManager: RecordArrayManager;
 
   declare _notificationManager: NotificationManager;
+  declare notifications: StoreNotifications;
   declare identifierCache: IdentifierCache;
   declare _adapterCache: Dict<MinimumAdapterInterface & { store: Store }>;
   declare _serializerCache: Dict<MinimumSerializerInterface & { store: Store }>;
   declare _modelFactoryCache: Dict<unknown>;
   declare _fetchManager: FetchManager;
+  declare requestManager: RequestManager;
   declare _schemaDefinitionService: SchemaDefinitionService;
   declare _instanceCache: InstanceCache;
+  declare _persistentCache: PersistentCache | null;
+  declare _realtimeConnections: RealtimeConnection[];
+  declare _cachePolicies: Dict<CachePolicy>;
+  declare _versionAttributes: Dict<string>;
+  declare _mergeStrategies: Dict<MergeStrategy>;
+  declare _queryCache: QueryCache;
+  declare _indexCache: IndexCache;
 
   // DEBUG-only properties
   declare _trackedAsyncRequests: AsyncTrackingToken[];
@@ -220,8 +245,34 @@ class Store extends Service {
     // private, TODO consider taking public as the instance is public to instantiateRecord anyway
     this._notificationManager = new NotificationManager(this);
 
+    /**
+     * Subscribes to batched notifications of the changes made to
+     * records, by identifier, by type or for every record.
+     *
+     * @property {StoreNotifications} notifications
+     * @public
+     */
+    this.notifications = new StoreNotifications(this);
+
     // private
     this._fetchManager = new FetchManager(this);
+    this._persistentCache = null;
+    this._realtimeConnections = [];
+    this._cachePolicies = Object.create(null) as Dict<CachePolicy>;
+    this._versionAttributes = Object.create(null) as Dict<string>;
+    this._mergeStrategies = Object.create(null) as Dict<MergeStrategy>;
+    this._queryCache = new QueryCache();
+    this._indexCache = new IndexCache(this);
+
+    /**
+     * The RequestManager through which every adapter request
+     * made by this store is sent. Handlers added via
+     * `store.requestManager.use([...])` wrap the adapter call.
+     *
+     * @property {RequestManager} requestManager
+     * @public
+     */
+    this.requestManager = new RequestManager();
     this._instanceCache = new InstanceCache(this);
     this._adapterCache = Object.create(null);
     this._serializerCache = Object.create(null);
@@ -282,6 +333,294 @@ class Store extends Service {
     return this._fetchManager.requestCache;
   }
 
+  /**
+    Sets the cache policy for a type, letting the store decide when
+    records of that type are reloaded based on how long ago they were
+    fetched rather than consulting the adapter's `shouldReloadRecord`,
+    `shouldBackgroundReloadRecord`, `shouldReloadAll` and
+    `shouldBackgroundReloadAll` hooks.
+
+    - `maxAge`: for this long after being fetched, data is used as is.
+    - `staleWhileRevalidate`: for this long after `maxAge` has passed,
+      the stale data is used while it is refetched in the background.
+    - `staleIfError`: for this long after `maxAge` has passed, the stale
+      data is used if a blocking refetch fails.
+
+    Past those windows `findRecord` and `findAll` wait for a refetch. All
+    durations are in milliseconds. Records which were never fetched, for
+    instance because they were pushed, are still governed by the adapter's
+    hooks, and the `reload` and `backgroundReload` options passed to
+    `findRecord` and `findAll` take precedence over the policy.
+
+    ```js
+    store.setCachePolicy('post', {
+      maxAge: 60 * 1000,
+      staleWhileRevalidate: 5 * 60 * 1000,
+      staleIfError: 24 * 60 * 60 * 1000,
+    });
+    ```
+
+    Fetch times are available from the request state service via
+    `getFetchedAt(identifier)`.
+
+    @method setCachePolicy
+    @public
+    @param {String} modelName
+    @param {Object|null} policy the policy, or `null` to remove it
+  */
+  setCachePolicy(modelName: string, policy: CachePolicy | null): void {
+    const type = normalizeModelName(modelName);
+    if (policy) {
+      this._cachePolicies[type] = policy;
+    } else {
+      delete this._cachePolicies[type];
+    }
+  }
+
+  /**
+    Uses an attribute of a type as the version of its records, in place
+    of the `ETag` their last `findRecord` or save response was received
+    with. Saves send the version the record was last received with as
+    `If-Match`, so that the server can reject the save with a
+    `412 Precondition Failed` if the record has changed since.
+
+    ```js
+    store.setVersionAttribute('post', 'revision');
+    ```
+
+    Conflicting saves are rejected with a `ConflictError` whose `conflict`
+    holds the local changes and, when the response included it, the
+    server's copy of the record.
+
+    @method setVersionAttribute
+    @public
+    @param {String} modelName
+    @param {String|null} attribute the attribute, or `null` to use ETags again
+  */
+  setVersionAttribute(modelName: string, attribute: string | null): void {
+    const type = normalizeModelName(modelName);
+    if (attribute) {
+      this._versionAttributes[type] = attribute;
+    } else {
+      delete this._versionAttributes[type];
+    }
+  }
+
+  /**
+    Configures how data pushed for a record of a type is merged with
+    the record's uncommitted attribute changes.
+
+    An attribute conflicts when the server sends a value which differs
+    both from the value the local change was based on and from the
+    local value itself. With the default `'local-wins'` strategy the
+    local value is kept, `'remote-wins'` discards the local change, and
+    a function receives `{ key, base, local, remote }` and the record's
+    identifier and returns the value the record should keep.
+
+    ```js
+    store.setMergeStrategy('post', ({ key, local, remote }) => {
+      return key === 'tags' ? [...new Set([...remote, ...local])] : remote;
+    });
+    ```
+
+    Either way the conflicts are reported: a `'conflicts'` notification
+    is sent for the record, and `record.conflicts()` lists them until the
+    record is saved or rolled back.
+
+    @method setMergeStrategy
+    @public
+    @param {String} modelName
+    @param {String|Function|null} strategy the strategy, or `null` to restore `'local-wins'`
+  */
+  setMergeStrategy(modelName: string, strategy: MergeStrategy | null): void {
+    const type = normalizeModelName(modelName);
+    if (strategy) {
+      this._mergeStrategies[type] = strategy;
+    } else {
+      delete this._mergeStrategies[type];
+    }
+  }
+
+  /**
+    The version the local state of a record is based on.
+
+    @method _versionFor
+    @internal
+  */
+  _versionFor(identifier: StableRecordIdentifier): string | null {
+    const attribute = this._versionAttributes[identifier.type];
+    if (!attribute) {
+      return this._fetchManager.requestCache.getVersion(identifier);
+    }
+    const recordData = this._instanceCache.peek({ identifier, bucket: 'recordData' });
+    if (!recordData) {
+      return null;
+    }
+    // a local change to the version itself is not what the server last sent
+    const changed = recordData.changedAttributes()[attribute];
+    const value: unknown = changed ? changed[0] : recordData.getAttr(attribute);
+    return value === null || value === undefined ? null : String(value);
+  }
+
+  /**
+    Enables the offline write queue for this store.
+
+    While offline, calls to `save` are held in a queue and persisted to
+    the provided storage backend rather than being sent to the adapter.
+    Saves which fail with a network error are queued as well. Queued
+    saves remain pending (`isSaving` stays `true`) until they are
+    replayed, in order, once the browser reports it is back online.
+
+    Saves persisted by a previous session are restored, keeping their
+    original identifiers, and replayed. The returned promise resolves
+    once the persisted queue has been restored.
+
+    ```app/services/store.js
+    import Store, { IndexedDBStorage } from '@ember-data/store';
+
+    export default class extends Store {
+      constructor() {
+        super(...arguments);
+        this.enableOfflineMode({ storage: new IndexedDBStorage() });
+      }
+    }
+    ```
+
+    Offline mode may only be enabled once per store.
+
+    @method enableOfflineMode
+    @public
+    @param {Object} options
+    @param {PersistentStorage} options.storage the backend to persist queued saves to
+    @param {String} [options.key] the storage key for the queue, defaults to `ember-data:offline-queue`
+    @param {Function} [options.isOnline] overrides the check of `navigator.onLine`
+    @return {Promise} resolves once any persisted saves have been restored, and replayed unless we are offline
+  */
+  enableOfflineMode(options: OfflineQueueOptions): Promise<void> {
+    if (DEBUG) {
+      assertDestroyingStore(this, 'enableOfflineMode');
+    }
+    return this._fetchManager.enableOfflineQueue(options);
+  }
+
+  /**
+    Replays any saves held by the offline queue. This happens automatically
+    when the browser fires an `online` event, but may be triggered manually
+    when connectivity is detected by other means.
+
+    @method replayOfflineQueue
+    @public
+    @return {Promise} resolves once replay has finished or stopped because we are offline again
+  */
+  replayOfflineQueue(): Promise<void> {
+    assert(`You must call enableOfflineMode before replaying the offline queue`, this._fetchManager.offlineQueue);
+    return this._fetchManager.offlineQueue.replay();
+  }
+
+  /**
+    Applies the messages of a realtime source, such as a wrapper around
+    a `WebSocket` or an `EventSource`, to the store.
+
+    Sources deliver JSON:API documents, or `{ event: 'update', modelName, document }`
+    messages for documents in the format of another serializer, which are
+    normalized by the serializer of their primary type and pushed. Removals,
+    `{ event: 'removed', type, id }` or `{ event: 'delete', type, id }`,
+    unload the record.
+
+    ```js
+    const socket = new WebSocket('wss://example.com/updates');
+    const disconnect = store.connectRealtime({
+      subscribe(listener) {
+        const onMessage = (event) => listener(JSON.parse(event.data));
+        socket.addEventListener('message', onMessage);
+        return () => socket.removeEventListener('message', onMessage);
+      },
+    });
+    ```
+
+    Messages for a record with a save in flight are held until the save
+    settles, and dropped if it succeeds since its response is at least as
+    recent. Tests can drive a connection with a `LocalEventSource`.
+
+    @method connectRealtime
+    @public
+    @param {RealtimeSource} source
+    @return {Function} disconnects the source
+  */
+  connectRealtime(source: RealtimeSource): () => void {
+    if (DEBUG) {
+      assertDestroyingStore(this, 'connectRealtime');
+    }
+    const connection = new RealtimeConnection(this, source);
+    this._realtimeConnections.push(connection);
+    return () => {
+      const index = this._realtimeConnections.indexOf(connection);
+      if (index !== -1) {
+        this._realtimeConnections.splice(index, 1);
+        connection.destroy();
+      }
+    };
+  }
+
+  /**
+    Enables persisting the cache across page loads for the given types,
+    and hydrates the store with any records persisted previously.
+
+    The remote state of every loaded record of an opted-in type, meaning
+    its attributes, relationships and relationship meta as last received
+    from the server, is written to storage along with the record's
+    identifier. Local changes and new records are never persisted.
+    Records are persisted whenever the page is hidden or unloaded, or
+    on demand via `store.persistCache()`.
+
+    Hydration pushes persisted records into the store with their
+    original `lid`, skipping records which are already loaded. Persisted
+    data is discarded when the schema of its type has changed, and
+    individual records are evicted once older than their type's `ttl`.
+
+    ```app/services/store.js
+    import Store, { IndexedDBStorage } from '@ember-data/store';
+
+    export default class extends Store {
+      cacheReady = this.enablePersistentCache({
+        storage: new IndexedDBStorage(),
+        types: { user: true, post: { ttl: 60 * 60 * 1000 } },
+        ttl: 24 * 60 * 60 * 1000,
+      });
+    }
+    ```
+
+    @method enablePersistentCache
+    @public
+    @param {Object} options
+    @param {PersistentStorage} options.storage the backend to persist records to
+    @param {Array|Object} options.types the types to persist, optionally mapped to per-type options such as `ttl`
+    @param {Number} [options.ttl] the default age in milliseconds after which persisted records are evicted
+    @param {String} [options.version] an application version mixed into the schema hash
+    @param {String} [options.key] prefix for the storage keys, defaults to `ember-data:cache`
+    @return {Promise} resolves once persisted records have been pushed into the store
+  */
+  enablePersistentCache(options: PersistentCacheOptions): Promise<void> {
+    if (DEBUG) {
+      assertDestroyingStore(this, 'enablePersistentCache');
+    }
+    assert(`The persistent cache has already been enabled for this store`, !this._persistentCache);
+    this._persistentCache = new PersistentCache(this, options);
+    return this._persistentCache.hydrate();
+  }
+
+  /**
+    Immediately writes the remote state of the opted-in types to storage.
+
+    @method persistCache
+    @public
+    @return {Promise} resolves once the records have been written
+  */
+  persistCache(): Promise<void> {
+    assert(`You must call enablePersistentCache before persisting the cache`, this._persistentCache);
+    return this._persistentCache.persist();
+  }
+
   instantiateRecord(
     identifier: StableRecordIdentifier,
     createRecordArgs: { [key: string]: unknown },
@@ -739,7 +1078,10 @@ class Store extends Service {
     ### Reloading
 
     The reload behavior is configured either via the passed `options` hash or
-    the result of the adapter's `shouldReloadRecord`.
+    the result of the adapter's `shouldReloadRecord`. When a cache policy has
+    been set for the type with [setCachePolicy](../methods/setCachePolicy?anchor=setCachePolicy)
+    and the record was fetched by a request, the policy is used instead of the
+    adapter's hooks.
 
     If `{ reload: true }` is passed or `adapter.shouldReloadRecord` evaluates
     to `true`, then the returned promise resolves once the adapter returns
@@ -966,6 +1308,24 @@ class Store extends Service {
     });
     ```
 
+    ### Aborting Requests
+
+    An `AbortSignal` may be passed as `signal`. It is made available to the adapter
+    as `snapshot.signal`, and the `RESTAdapter` and `JSONAPIAdapter` pass it to `fetch`.
+    Aborting the signal rejects the request with an `AbortError`, and the request state
+    service reports the request as `aborted` rather than `rejected`.
+
+    ```app/routes/post.js
+    import Route from '@ember/routing/route';
+    export default class PostRoute extends Route {
+      model(params, transition) {
+        let controller = new AbortController();
+        transition.promise.catch(() => controller.abort());
+        return this.store.findRecord('post', params.post_id, { signal: controller.signal });
+      }
+    }
+    ```
+
     @since 1.13.0
     @method findRecord
     @public
@@ -1013,6 +1373,8 @@ class Store extends Service {
     } else if (options.reload) {
       assertIdentifierHasId(identifier);
       promise = this._fetchManager.scheduleFetch(identifier, options);
+    } else if (this._cacheStatusFor(identifier) !== null) {
+      promise = this._fetchByCachePolicy(identifier, options);
     } else {
       let snapshot = this._instanceCache.createSnapshot(identifier, options);
       let adapter = this.adapterFor(identifier.type);
@@ -1045,6 +1407,26 @@ class Store extends Service {
     return promiseRecord(this, promise, `DS: Store#findRecord ${identifier}`);
   }
 
+  _cacheStatusFor(identifier: StableRecordIdentifier): CacheStatus | null {
+    const policy = this._cachePolicies[identifier.type];
+    return policy ? cacheStatus(policy, this.getRequestStateService().getFetchedAt(identifier)) : null;
+  }
+
+  _fetchByCachePolicy(identifier: StableRecordIdentifier, options: FindOptions): Promise<StableRecordIdentifier> {
+    const policy = this._cachePolicies[identifier.type]!;
+    const fetchedAt = this.getRequestStateService().getFetchedAt(identifier)!;
+    const status = cacheStatus(policy, fetchedAt);
+    assertIdentifierHasId(identifier);
+
+    if (status === 'expired' && typeof options.reload === 'undefined') {
+      return withStaleIfError(this._fetchManager.scheduleFetch(identifier, options), policy, fetchedAt, identifier);
+    }
+    if (options.backgroundReload !== false && (options.backgroundReload || status !== 'fresh')) {
+      this._fetchManager.scheduleFetch(identifier, options);
+    }
+    return resolve(identifier);
+  }
+
   /**
     Get the reference for the specified record.
 
@@ -1237,7 +1619,20 @@ class Store extends Service {
     This method delegates a query to the adapter. This is the one place where
     adapter-level semantics are exposed to the application.
 
-    Each time this method is called a new request is made through the adapter.
+    Each time this method is called a new request is made through the adapter,
+    unless an identical query for the same type is already in flight, in which
+    case the in-flight request is shared and both calls resolve with the same
+    `AdapterPopulatedRecordArray`. Queries are considered identical when they
+    serialize to the same query params regardless of key order. Pass
+    `{ dedupe: false }` in options to always make a new request.
+
+    Passing `{ cache: true }` caches the resulting record array, with its `meta`
+    and `links`. Later calls for the same query which also pass `{ cache: true }`
+    resolve with that record array immediately while it is refreshed in the
+    background. If a cache policy is set for the type (see `setCachePolicy`),
+    no refresh is made while the results are fresh, and once they have expired
+    the call waits for the refresh. See `invalidateQuery` for removing queries
+    from the cache.
 
     Exposing queries this way seems preferable to creating an abstract query
     language for all server-side queries, and then require all adapters to
@@ -1281,7 +1676,9 @@ class Store extends Service {
     @public
     @param {String} modelName
     @param {any} query an opaque query to be used by the adapter
-    @param {Object} options optional, may include `adapterOptions` hash which will be passed to adapter.query
+    @param {Object} options optional, may include `adapterOptions` hash which will be passed to adapter.query,
+      a `signal` (an `AbortSignal`) which may be used to cancel the request, `dedupe: false` to opt out of
+      sharing an identical in-flight request and `cache: true` to use the query cache
     @return {Promise} promise
   */
   query(modelName: string, query, options): PromiseArray<RecordInstance, AdapterPopulatedRecordArray> {
@@ -1295,12 +1692,17 @@ class Store extends Service {
       typeof modelName === 'string'
     );
 
-    let adapterOptionsWrapper: { adapterOptions?: any } = {};
+    let adapterOptionsWrapper: { adapterOptions?: any; signal?: AbortSignal } = {};
 
     if (options && options.adapterOptions) {
       adapterOptionsWrapper.adapterOptions = options.adapterOptions;
     }
+    if (options && options.signal) {
+      adapterOptionsWrapper.signal = options.signal;
+    }
     let recordArray = options?._recordArray || null;
+    // paginated record arrays are never shared, their pages are loaded independently
+    let pagination = (!recordArray && options && options.pagination) || null;
 
     let normalizedModelName = normalizeModelName(modelName);
     let adapter = this.adapterFor(normalizedModelName);
@@ -1311,18 +1713,81 @@ class Store extends Service {
       typeof adapter.query === 'function'
     );
 
-    let queryPromise = _query(
-      adapter,
+    let cacheKey =
+      options && options.cache && !recordArray && !pagination
+        ? queryCacheKey('query', normalizedModelName, query)
+        : null;
+    if (cacheKey) {
+      let cached = this._queryCache.get(normalizedModelName, cacheKey);
+      if (cached) {
+        let fetchedAt = this.getRequestStateService().getQueryFetchedAt(cacheKey);
+        let status = cacheStatus(this._cachePolicies[normalizedModelName], fetchedAt);
+        if (status === 'fresh') {
+          return promiseArray(resolve(cached));
+        }
+        cached.isUpdating = true;
+        let revalidation = dedupe(
+          this,
+          dedupeKey(['revalidate', normalizedModelName, query], options),
+          () => _query(adapter, this, normalizedModelName, query, cached, adapterOptionsWrapper) as Promise<unknown>
+        ) as Promise<AdapterPopulatedRecordArray>;
+        let array = cached;
+        revalidation = revalidation.finally(() => {
+          if (array.isDestroying || array.isDestroyed) {
+            return;
+          }
+          array.isUpdating = false;
+        });
+        // only wait for data which has outlived its policy
+        return promiseArray(status === 'expired' ? revalidation : resolve(cached));
+      }
+    }
+
+    // a query refreshing an existing record array must not resolve with another
+    let key = recordArray || pagination ? null : dedupeKey(['query', normalizedModelName, query], options);
+    if (pagination) {
+      recordArray = this.recordArrayManager.createAdapterPopulatedRecordArray(normalizedModelName, query);
+      recordArray._setPagination(pagination);
+    }
+    let queryPromise = dedupe(
       this,
-      normalizedModelName,
-      query,
-      recordArray,
-      adapterOptionsWrapper
+      key,
+      () => _query(adapter, this, normalizedModelName, query, recordArray, adapterOptionsWrapper) as Promise<unknown>
     ) as unknown as Promise<AdapterPopulatedRecordArray>;
 
+    if (cacheKey) {
+      queryPromise = queryPromise.then((result) => {
+        this._queryCache.set(normalizedModelName, cacheKey!, query, result);
+        return result;
+      });
+    }
+
     return promiseArray(queryPromise);
   }
 
+  /**
+    Removes queries made with `{ cache: true }` from the query cache, so that
+    the next such `query` waits for a new request rather than resolving with
+    the cached record array. Record arrays already handed out are unaffected.
+
+    Without a predicate every cached query for the type is removed. The
+    cached queries of a type are also removed whenever a record of that type
+    is created or deleted.
+
+    ```js
+    store.invalidateQuery('post', (query) => query.author === '1');
+    ```
+
+    @method invalidateQuery
+    @public
+    @param {String} modelName
+    @param {Function} [predicate] receives each cached query, returning `true` to remove it
+    @return {Number} the number of queries removed
+  */
+  invalidateQuery(modelName: string, predicate?: (query: Dict<unknown>) => boolean): number {
+    return this._queryCache.invalidate(normalizeModelName(modelName), predicate);
+  }
+
   /**
     This method makes a request for one record, where the `id` is not known
     beforehand (if the `id` is known, use [`findRecord`](../methods/findRecord?anchor=findRecord)
@@ -1419,6 +1884,7 @@ class Store extends Service {
     @param {String} modelName
     @param {any} query an opaque query to be used by the adapter
     @param {Object} options optional, may include `adapterOptions` hash which will be passed to adapter.queryRecord
+      and `dedupe: false` to opt out of sharing an identical in-flight request
     @return {Promise} promise which resolves with the found record or `null`
   */
   queryRecord(modelName: string, query, options?): PromiseObject<RecordInstance | null> {
@@ -1434,11 +1900,14 @@ class Store extends Service {
 
     let normalizedModelName = normalizeModelName(modelName);
     let adapter = this.adapterFor(normalizedModelName);
-    let adapterOptionsWrapper: { adapterOptions?: any } = {};
+    let adapterOptionsWrapper: { adapterOptions?: any; signal?: AbortSignal } = {};
 
     if (options && options.adapterOptions) {
       adapterOptionsWrapper.adapterOptions = options.adapterOptions;
     }
+    if (options && options.signal) {
+      adapterOptionsWrapper.signal = options.signal;
+    }
 
     assert(`You tried to make a query but you have no adapter (for ${normalizedModelName})`, adapter);
     assert(
@@ -1446,13 +1915,18 @@ class Store extends Service {
       typeof adapter.queryRecord === 'function'
     );
 
-    const promise: Promise<StableRecordIdentifier | null> = _queryRecord(
-      adapter,
+    const promise = dedupe(
       this,
-      normalizedModelName,
-      query,
-      adapterOptionsWrapper
-    ) as Promise<StableRecordIdentifier | null>;
+      dedupeKey(['queryRecord', normalizedModelName, query], options),
+      () =>
+        _queryRecord(
+          adapter,
+          this,
+          normalizedModelName,
+          query,
+          adapterOptionsWrapper
+        ) as Promise<StableRecordIdentifier | null>
+    );
 
     return promiseObject(promise.then((identifier) => identifier && this.peekRecord(identifier)));
   }
@@ -1481,7 +1955,10 @@ class Store extends Service {
 
     If `{ reload: true }` is passed or `adapter.shouldReloadAll` evaluates to
     `true`, then the returned promise resolves once the adapter returns data,
-    regardless if there are already records in the store:
+    regardless if there are already records in the store. Once a `findAll` for
+    the type has completed, a cache policy set for the type with
+    [setCachePolicy](../methods/setCachePolicy?anchor=setCachePolicy) takes the
+    place of the adapter's hooks. For example:
 
     ```js
     store.push({
@@ -1638,6 +2115,11 @@ class Store extends Service {
 
     See [query](../methods/query?anchor=query) to only get a subset of records from the server.
 
+    While a `findAll` request for a type is in flight, further `findAll` calls
+    for that type with the same `include` and `adapterOptions` share it rather
+    than making another request. Pass `{ dedupe: false }` to always make a new
+    request.
+
     @since 1.13.0
     @method findAll
     @public
@@ -1670,9 +2152,26 @@ class Store extends Service {
       typeof adapter.findAll === 'function'
     );
 
+    let policy = this._cachePolicies[normalizedModelName];
+    let fetchedAt = policy
+      ? this.getRequestStateService().getQueryFetchedAt(queryCacheKey('findAll', normalizedModelName))
+      : null;
+    let status = cacheStatus(policy, fetchedAt);
+
     if (options.reload) {
       array.isUpdating = true;
       fetch = _findAll(adapter, this, normalizedModelName, options);
+    } else if (status !== null) {
+      if (status === 'expired' && typeof options.reload === 'undefined') {
+        array.isUpdating = true;
+        fetch = withStaleIfError(_findAll(adapter, this, normalizedModelName, options), policy!, fetchedAt!, array);
+      } else {
+        if (options.backgroundReload !== false && (options.backgroundReload || status !== 'fresh')) {
+          array.isUpdating = true;
+          _findAll(adapter, this, normalizedModelName, options);
+        }
+        fetch = resolve(array);
+      }
     } else {
       let snapshotArray = array._createSnapshot(options);
 
@@ -1743,6 +2242,216 @@ class Store extends Service {
     return this.recordArrayManager.liveRecordArrayFor(normalizedModelName);
   }
 
+  /**
+    This method returns a live array of the known records of a given type
+    that match a predicate, optionally sorted by a comparator.
+
+    Unlike filtering or sorting the result of `peekAll`, the array is
+    updated incrementally: when records of the type are loaded, unloaded
+    or changed, only those records are tested again and moved into place.
+    By default a change to any attribute of a record tests it again; pass
+    `dependentKeys` to limit this to the attributes and relationships the
+    predicate and comparator read.
+
+    Like `peekAll`, it does not make a request to the backend, and the
+    array is updated at the end of the runloop in which records change.
+
+    Each call returns a new array, which the store keeps updating until it
+    is destroyed. Call `destroy()` on the array once it is no longer needed,
+    for instance in the `willDestroy` of the component that created it,
+    or it will be held and evaluated for as long as the store lives.
+
+    Example
+
+    ```javascript
+    let published = store.filter('post', {
+      where: (post) => post.isPublished,
+      sort: (a, b) => b.publishedAt - a.publishedAt,
+      dependentKeys: ['isPublished', 'publishedAt'],
+    });
+
+    // when done with it
+    published.destroy();
+    ```
+
+    @method filter
+    @public
+    @param {String} modelName
+    @param {Object} options `where`, `sort` and `dependentKeys`
+    @return {FilteredRecordArray}
+  */
+  filter(modelName: string, options: FilterOptions = {}): FilteredRecordArray {
+    if (DEBUG) {
+      assertDestroyingStore(this, 'filter');
+    }
+    assert(`You need to pass a model name to the store's filter method`, modelName);
+    assert(
+      `Passing classes to store methods has been removed. Please pass a dasherized string instead of ${modelName}`,
+      typeof modelName === 'string'
+    );
+    assert(
+      `Expected the 'where' option of filter to be a function`,
+      !options.where || typeof options.where === 'function'
+    );
+    assert(
+      `Expected the 'sort' option of filter to be a function`,
+      !options.sort || typeof options.sort === 'function'
+    );
+    return this.recordArrayManager.createFilteredRecordArray(normalizeModelName(modelName), options);
+  }
+
+  /**
+    This method evaluates a query against the records of a given type that
+    are already loaded, without making a request to the backend. It can be
+    used to search while offline, or to render the records we have while a
+    `query` to the server is pending.
+
+    `where` maps attributes, `id` or paths through relationships to a value
+    the field must equal, or to operators: `eq`, `ne`, `gt`, `gte`, `lt`,
+    `lte`, `in` and `contains`, which matches text regardless of case. A
+    path through a hasMany matches when any of the related records does.
+    Values are compared according to the attribute's type, so dates and
+    numbers may be given as strings.
+
+    `sort` takes one or more such fields, prefixed with `-` to sort in
+    descending order, and `offset` and `limit` select a slice of the result.
+
+    Example
+
+    ```javascript
+    let posts = store.peekQuery('post', {
+      where: {
+        title: { contains: 'ember' },
+        publishedAt: { gte: '2022-01-01' },
+        'author.name': { in: ['Chris', 'Wes'] },
+      },
+      sort: ['-publishedAt', 'title'],
+      limit: 10,
+    });
+    ```
+
+    The result is a plain array of the matching records, which is not
+    updated as records change and need not be destroyed; call `peekQuery`
+    again for the latest results.
+
+    @method peekQuery
+    @public
+    @param {String} modelName
+    @param {Object} query `where`, `sort`, `limit` and `offset`
+    @return {Array}
+  */
+  peekQuery(modelName: string, query: LocalQuery = {}): NativeArray<RecordInstance> {
+    if (DEBUG) {
+      assertDestroyingStore(this, 'peekQuery');
+    }
+    assert(`You need to pass a model name to the store's peekQuery method`, modelName);
+    assert(
+      `Passing classes to store methods has been removed. Please pass a dasherized string instead of ${modelName}`,
+      typeof modelName === 'string'
+    );
+    let normalizedModelName = normalizeModelName(modelName);
+    let identifiers = peekQuery(this, normalizedModelName, query);
+    return A(identifiers.map((identifier) => this._instanceCache.getRecord(identifier)));
+  }
+
+  /**
+    Declares an index on an attribute of a type, so that the records
+    holding a value can be found with `peekRecordBy` and `peekAllBy`
+    without scanning every record of the type.
+
+    The index is kept up to date as records are pushed, changed locally
+    and unloaded. A `unique` index holds at most one record per value and
+    is looked up with `peekRecordBy`; other indexes may hold several, and
+    when the attribute is an array each of its values is indexed.
+
+    ```js
+    store.registerIndex('user', 'email', { unique: true });
+    store.registerIndex('post', 'tag', { attribute: 'tags' });
+
+    let user = store.peekRecordBy('user', 'email', 'chris@example.com');
+    let posts = store.peekAllBy('post', 'tag', 'ember');
+    ```
+
+    @method registerIndex
+    @public
+    @param {String} modelName
+    @param {String} name
+    @param {Object|null} options `attribute`, which defaults to the name, and `unique`, or `null` to remove the index
+  */
+  registerIndex(modelName: string, name: string, options: IndexOptions | null = {}): void {
+    assert(`You need to pass a model name to the store's registerIndex method`, typeof modelName === 'string');
+    const type = normalizeModelName(modelName);
+    if (!options) {
+      this._indexCache.unregister(type, name);
+      return;
+    }
+    const attribute = options.attribute || name;
+    assert(
+      `Cannot index '${attribute}' of ${type} as it is not an attribute`,
+      !!this.getSchemaDefinitionService().attributesDefinitionFor({ type })[attribute]
+    );
+    this._indexCache.register(type, name, options);
+  }
+
+  /**
+    Returns the loaded record of a type holding a value in a unique index
+    declared with `registerIndex`, or `null` if there is none.
+
+    ```js
+    let user = store.peekRecordBy('user', 'email', 'chris@example.com');
+    ```
+
+    @method peekRecordBy
+    @public
+    @param {String} modelName
+    @param {String} name the name of the index
+    @param {*} value
+    @return {Model|null}
+  */
+  peekRecordBy(modelName: string, name: string, value: unknown): RecordInstance | null {
+    if (DEBUG) {
+      assertDestroyingStore(this, 'peekRecordBy');
+    }
+    const type = normalizeModelName(modelName);
+    assert(`No index named '${name}' was registered for ${type}`, this._indexCache.has(type, name));
+    assert(
+      `The index '${name}' of ${type} is not unique, use peekAllBy to look up its records`,
+      this._indexCache.isUnique(type, name)
+    );
+    const identifier = this._indexCache
+      .lookup(type, name, value)
+      .find((identifier) => this._instanceCache.recordIsLoaded(identifier, true));
+    return identifier ? this._instanceCache.getRecord(identifier) : null;
+  }
+
+  /**
+    Returns the loaded records of a type holding a value in an index
+    declared with `registerIndex`, as a plain array which is not updated
+    as records change.
+
+    ```js
+    let posts = store.peekAllBy('post', 'tag', 'ember');
+    ```
+
+    @method peekAllBy
+    @public
+    @param {String} modelName
+    @param {String} name the name of the index
+    @param {*} value
+    @return {Array}
+  */
+  peekAllBy(modelName: string, name: string, value: unknown): NativeArray<RecordInstance> {
+    if (DEBUG) {
+      assertDestroyingStore(this, 'peekAllBy');
+    }
+    const type = normalizeModelName(modelName);
+    assert(`No index named '${name}' was registered for ${type}`, this._indexCache.has(type, name));
+    const identifiers = this._indexCache
+      .lookup(type, name, value)
+      .filter((identifier) => this._instanceCache.recordIsLoaded(identifier, true));
+    return A(identifiers.map((identifier) => this._instanceCache.getRecord(identifier)));
+  }
+
   /**
     This method unloads all records in the store.
     It schedules unloading to happen during the next run loop.
@@ -2090,6 +2799,43 @@ class Store extends Service {
     return this._instanceCache.createSnapshot(recordIdentifierFor(record)).serialize(options);
   }
 
+  /**
+    Saves several records as a single unit. Records added to the transaction
+    with `tx.save(record)` are sent together to the adapter's `commitTransaction`
+    hook once the callback (and the promise it returns, if any) completes.
+
+    ```js
+    await store.transaction(async (tx) => {
+      let order = store.createRecord('order', { address });
+      address.street = '1 Infinite Loop';
+
+      tx.save(order);
+      tx.save(address);
+      order.items.forEach((item) => tx.save(item));
+    });
+    ```
+
+    The returned promise resolves with the callback's result once every record
+    has been saved. If the adapter rejects, the save of every record is rejected
+    and their changes remain local, as when a single save fails; if the callback
+    throws, nothing is saved.
+
+    All records in a transaction must use the same adapter. Saves made with
+    `record.save()` within the callback are not part of the transaction.
+
+    @method transaction
+    @public
+    @param {Function} callback receives the `Transaction`
+    @return {Promise} resolves with the callback's result
+  */
+  transaction<T>(callback: (tx: Transaction) => T | Promise<T>): Promise<T> {
+    if (DEBUG) {
+      assertDestroyingStore(this, 'transaction');
+    }
+    const tx = new Transaction(this);
+    return new RSVPPromise<T>((resolve) => resolve(callback(tx))).then((result) => tx._commit().then(() => result));
+  }
+
   // todo @runspired this should likely be publicly @documented for custom records
   saveRecord(record: RecordInstance, options: Dict<unknown> = {}): Promise<RecordInstance> {
     assert(`Unable to initate save for a record in a disconnected state`, storeFor(record));
@@ -2110,22 +2856,11 @@ class Store extends Service {
       return resolve(record);
     }
 
-    recordData.willCommit();
-    if (isDSModel(record)) {
-      record.errors.clear();
-    }
-
     if (!options) {
       options = {};
     }
-    let operation: 'createRecord' | 'deleteRecord' | 'updateRecord' = 'updateRecord';
-
-    if (recordData.isNew?.()) {
-      operation = 'createRecord';
-    } else if (recordData.isDeleted?.()) {
-      operation = 'deleteRecord';
-    }
 
+    const { operation, checkpoint } = this._willCommitSave(record, recordData, options);
     const saveOptions = Object.assign({ [SaveOp]: operation }, options);
     let fetchManagerPromise = this._fetchManager.scheduleSave(identifier, saveOptions);
     return fetchManagerPromise.then(
@@ -2143,32 +2878,7 @@ class Store extends Service {
         call to `store._push`;
        */
         this._backburner.join(() => {
-          if (DEBUG) {
-            assertDestroyingStore(this, 'saveRecord');
-          }
-
-          let data = payload && payload.data;
-          if (!data) {
-            assert(
-              `Your ${identifier.type} record was saved to the server, but the response does not have an id and no id has been set client side. Records must have ids. Please update the server response to provide an id in the response or generate the id on the client side either before saving the record or while normalizing the response.`,
-              identifier.id
-            );
-          }
-
-          const cache = this.identifierCache;
-          let actualIdentifier = identifier;
-          if (operation !== 'deleteRecord' && data) {
-            actualIdentifier = cache.updateRecordIdentifier(identifier, data);
-          }
-
-          //We first make sure the primary data has been updated
-          const recordData = this._instanceCache.getRecordData(actualIdentifier);
-          recordData.didCommit(data);
-          this.recordArrayManager.recordDidChange(actualIdentifier);
-
-          if (payload && payload.included) {
-            this._push({ data: null, included: payload.included });
-          }
+          this._didCommitSave(identifier, operation, payload);
         });
         return record;
       },
@@ -2180,11 +2890,99 @@ class Store extends Service {
           err = new Error(e);
         }
         adapterDidInvalidate(this, identifier, err);
+        if (checkpoint !== null) {
+          this._instanceCache.getRecordData(identifier).restoreCheckpoint!(checkpoint);
+        }
         throw err;
       }
     );
   }
 
+  /**
+    Moves the local changes of a record in flight, returning the
+    save operation and, for optimistic saves, a checkpoint to
+    restore if the save fails.
+
+    @method _willCommitSave
+    @internal
+  */
+  _willCommitSave(
+    record: RecordInstance,
+    recordData: RecordData,
+    options: Dict<unknown>
+  ): { operation: SaveOperation; checkpoint: unknown } {
+    let checkpoint =
+      options.optimistic && typeof recordData.createCheckpoint === 'function' ? recordData.createCheckpoint() : null;
+    recordData.willCommit();
+    if (isDSModel(record)) {
+      record.errors.clear();
+    }
+    let operation: SaveOperation = 'updateRecord';
+
+    if (recordData.isNew?.()) {
+      operation = 'createRecord';
+    } else if (recordData.isDeleted?.()) {
+      operation = 'deleteRecord';
+    }
+
+    return { operation, checkpoint };
+  }
+
+  /**
+    Rejects the save of a record in the cache with the errors of the
+    adapter error, normalized by the record's serializer when it is an
+    `InvalidError`.
+
+    @method _didRejectSave
+    @internal
+  */
+  _didRejectSave(
+    identifier: StableRecordIdentifier,
+    error: Error & { errors?: JsonApiValidationError[]; isAdapterError?: true; code?: string }
+  ) {
+    adapterDidInvalidate(this, identifier, error);
+  }
+
+  /**
+    Applies the normalized response to a successful save to the cache.
+    Must be called within a run loop.
+
+    @method _didCommitSave
+    @internal
+  */
+  _didCommitSave(identifier: StableRecordIdentifier, operation: SaveOperation, payload: SingleResourceDocument | null) {
+    if (DEBUG) {
+      assertDestroyingStore(this, 'saveRecord');
+    }
+
+    let data = payload && payload.data;
+    if (!data) {
+      assert(
+        `Your ${identifier.type} record was saved to the server, but the response does not have an id and no id has been set client side. Records must have ids. Please update the server response to provide an id in the response or generate the id on the client side either before saving the record or while normalizing the response.`,
+        identifier.id
+      );
+    }
+
+    const cache = this.identifierCache;
+    let actualIdentifier = identifier;
+    if (operation !== 'deleteRecord' && data) {
+      actualIdentifier = cache.updateRecordIdentifier(identifier, data);
+    }
+
+    //We first make sure the primary data has been updated
+    const recordData = this._instanceCache.getRecordData(actualIdentifier);
+    recordData.didCommit(data);
+    this.recordArrayManager.recordDidChange(actualIdentifier);
+    if (operation !== 'updateRecord') {
+      // cached query results may now be missing or include this record
+      this._queryCache.invalidate(actualIdentifier.type);
+    }
+
+    if (payload && payload.included) {
+      this._push({ data: null, included: payload.included });
+    }
+  }
+
   /**
    * Instantiation hook allowing applications or addons to configure the store
    * to utilize a custom RecordData implementation.
@@ -2424,6 +3222,12 @@ class Store extends Service {
   willDestroy() {
     super.willDestroy();
     this.recordArrayManager.destroy();
+    this._fetchManager.destroy();
+    if (this._persistentCache) {
+      this._persistentCache.destroy();
+    }
+    this._realtimeConnections.forEach((connection) => connection.destroy());
+    this._realtimeConnections = [];
 
     this.identifierCache.destroy();
 
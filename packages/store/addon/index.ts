@@ -11,4 +11,10 @@ export {
   setIdentifierResetMethod,
   recordIdentifierFor,
   storeFor,
+  MemoryStorage,
+  WebStorage,
+  IndexedDBStorage,
+  LocalEventSource,
+  setResponseInfo,
+  Transaction,
 } from './-private';